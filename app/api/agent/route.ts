@@ -1,235 +1,47 @@
 import { NextResponse } from 'next/server';
-import { LLMClient } from '@/utils/model';
-import { CoreMessage, generateObject, UserContent } from "ai";
-import { z } from "zod";
-import { ObserveResult } from "@browserbasehq/stagehand";
-import { getStagehandInstance, closeStagehandInstance } from '../stagehandManager';
-
-
-type Step = {
-  text: string;
-  reasoning: string;
-  tool: "GOTO" | "ACT" | "EXTRACT" | "OBSERVE" | "CLOSE" | "WAIT" | "NAVBACK" | "USER_INPUT";
-  instruction: string;
-};
-
-async function runStagehand({
-  sessionID,
-  method,
-  instruction,
-}: {
-  sessionID: string;
-  method: "GOTO" | "ACT" | "EXTRACT" | "CLOSE" | "SCREENSHOT" | "OBSERVE" | "WAIT" | "NAVBACK" | "USER_INPUT";
-  instruction?: string;
-}) {
-  const stagehand = await getStagehandInstance(sessionID);
-  const page = stagehand.page;
-
-  try {
-    switch (method) {
-      case "GOTO":
-        await page.goto(instruction!, {
-          waitUntil: "commit",
-          timeout: 60000,
-        });
-        break;
-
-      case "ACT":
-        await page.act(instruction!);
-        break;
-
-      case "EXTRACT": {
-        const { extraction } = await page.extract(instruction!);
-        return extraction;
-      }
-
-      case "OBSERVE":
-        return await page.observe({
-          instruction,
-          useAccessibilityTree: true,
-        });
-
-      case "CLOSE":
-        await closeStagehandInstance(sessionID);
-        break;
-
-      case "SCREENSHOT": {
-        const cdpSession = await page.context().newCDPSession(page);
-        const { data } = await cdpSession.send("Page.captureScreenshot");
-        return data;
-      }
-
-      case "WAIT":
-        await new Promise((resolve) =>
-          setTimeout(resolve, Number(instruction))
-        );
-        break;
-
-      case "NAVBACK":
-        await page.goBack();
-        break;
-
-      case "USER_INPUT":
-        return {
-          status: "waiting_for_user",
-          message: instruction || "请处理验证码或登录信息",
-        };
-    }
-  } catch (error) {
-    await closeStagehandInstance(sessionID);
-    throw error;
-  }
-}
-
-async function sendPrompt({
-  goal,
-  sessionID,
-  previousSteps = [],
-  previousExtraction,
-}: {
-  goal: string;
-  sessionID: string;
-  previousSteps?: Step[];
-  previousExtraction?: string | ObserveResult[];
-}) {
-  let currentUrl = "";
-
-  try {
-    const stagehand = await getStagehandInstance(sessionID);
-    currentUrl = await stagehand.page.url();
-  } catch (error) {
-    console.error('Error getting page info:', error);
-  }
-
-  const content: UserContent = [
+import { getExtractionAfterStep } from '../agentMemory';
+import {
+  executeStep,
+  runStagehand,
+  selectStartingUrl,
+  sendPrompt,
+  synthesizeAnswer,
+} from '../agentCore';
+import {
+  ApprovalReason,
+  evaluateStep,
+  isValidAllowedDomains,
+  resolveApprovalPolicy,
+} from '../approvalPolicy';
+import {
+  describeLoopWarning,
+  describeRemainingSteps,
+  describeStopReason,
+  detectLoop,
+  resolveRunLimits,
+} from '../runBudget';
+import { classifyError } from '../stepErrors';
+import { ConversationMessage, isValidConversation, splitConversation } from '../conversation';
+import { applyPlanUpdate, createTaskPlan, isValidTaskPlan } from '../taskPlan';
+import {
+  capturePageSnapshot,
+  describeVerdict,
+  isValidStepVerdict,
+  shouldVerifyStep,
+  verifyStep,
+} from '../stepVerifier';
+import { isValidModelOverrides, setSessionModels } from '@/utils/model';
+
+// 拒绝执行需要用户批准的步骤
+function rejectRiskyStep(reasons: ApprovalReason[]) {
+  return NextResponse.json(
     {
-      type: "text",
-      text: `你是一个网页浏览助手，帮助用户完成目标: "${goal}"。
-${
-  previousSteps.length > 0
-    ? `
-到目前为止，你已经执行了以下步骤:
-${previousSteps
-  .map(
-    (step, i) =>
-      `${i + 1}. ${step.text} (使用工具: ${step.tool}, 指令: ${
-        step.instruction
-      })`
-  )
-  .join("\n")}
-
-当前URL是: ${currentUrl}
-`
-    : ""
-}
-${
-  previousExtraction
-    ? `
-最近的提取或观察结果:
-${
-  typeof previousExtraction === "string"
-    ? previousExtraction
-    : JSON.stringify(previousExtraction, null, 2)
-}
-`
-    : ""
-}
-
-请决定下一步操作。你可以使用以下工具:
-1. GOTO: 导航到一个URL
-2. ACT: 在页面上执行操作 (点击, 输入文本等)
-3. EXTRACT: 从页面提取信息
-4. OBSERVE: 观察页面的当前状态
-5. WAIT: 等待页面加载或元素出现
-6. NAVBACK: 返回上一页
-7. CLOSE: 完成任务并关闭会话
-8. USER_INPUT: 当遇到验证码、登录要求或其他需要用户手动操作的情况时使用此工具，系统将暂停自动操作，等待用户手动处理后继续
-
-请提供:
-1. 你的推理过程
-2. 要使用的工具
-3. 详细的指令
-
-如果你遇到验证码、登录页面或其他需要用户手动操作的情况，请使用USER_INPUT工具，并在指令中清楚说明用户需要做什么。`,
+      success: false,
+      error: '该步骤需要用户批准，逐步调用的接口不能执行，请使用/api/agent/run',
+      approvalRequired: reasons,
     },
-  ];
-
-  // Add screenshot if navigated to a page previously
-  if (previousSteps.length > 0 && previousSteps.some((step) => step.tool === "GOTO")) {
-    content.push({
-      type: "image",
-      image: (await runStagehand({
-        sessionID,
-        method: "SCREENSHOT",
-      })) as string,
-    });
-  }
-
-  if (previousExtraction) {
-    content.push({
-      type: "text",
-      text: `The result of the previous ${
-        Array.isArray(previousExtraction) ? "observation" : "extraction"
-      } is: ${previousExtraction}.`,
-    });
-  }
-
-  const message: CoreMessage = {
-    role: "user",
-    content,
-  };
-
-  const result = await generateObject({
-    model: LLMClient,
-    schema: z.object({
-      text: z.string(),
-      reasoning: z.string(),
-      tool: z.enum([
-        "GOTO",
-        "ACT",
-        "EXTRACT",
-        "OBSERVE",
-        "CLOSE",
-        "WAIT",
-        "NAVBACK",
-        "USER_INPUT",
-      ]),
-      instruction: z.string(),
-    }),
-    messages: [message],
-  });
-
-  return {
-    result: result.object,
-    previousSteps: [...previousSteps, result.object],
-  };
-}
-
-async function selectStartingUrl(goal: string) {
-  const message: CoreMessage = {
-    role: "user",
-    content: [{
-      type: "text",
-      text: `根据目标: "${goal}", 确定最佳的起始URL。
-可选择:
-1. 相关搜索引擎 (Baidu, Google, Bing等)
-2. 如果你确定目标网站，可以直接使用其URL
-3. 任何其他适合的起始点
-
-返回一个最有效实现此目标的URL。`
-    }]
-  };
-
-  const result = await generateObject({
-    model: LLMClient,
-    schema: z.object({
-      url: z.string().url(),
-      reasoning: z.string()
-    }),
-    messages: [message]
-  });
-
-  return result.object;
+    { status: 403 }
+  );
 }
 
 export async function GET() {
@@ -239,7 +51,20 @@ export async function GET() {
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { goal, sessionId, previousSteps = [], action } = body;
+    const { sessionId, previousSteps = [], action } = body;
+
+    // 对话中的用户消息，最后一条是当前目标；兼容只传goal的旧客户端
+    const messages: ConversationMessage[] | undefined =
+      body.messages ?? (body.goal ? [{ role: 'user', content: body.goal }] : undefined);
+    if (messages !== undefined && !isValidConversation(messages)) {
+      return NextResponse.json(
+        { error: '无效的对话消息' },
+        { status: 400 }
+      );
+    }
+    const { goal, earlierGoals } = messages
+      ? splitConversation(messages)
+      : { goal: undefined, earlierGoals: [] };
 
     if (!sessionId) {
       return NextResponse.json(
@@ -248,25 +73,56 @@ export async function POST(request: Request) {
       );
     }
 
+    const { allowedDomains } = body;
+    if (allowedDomains !== undefined && !isValidAllowedDomains(allowedDomains)) {
+      return NextResponse.json(
+        { error: '无效的允许域名列表' },
+        { status: 400 }
+      );
+    }
+    // 逐步调用的接口没有审批流程，风险步骤一律不执行，需要审批时请使用/api/agent/run
+    const policy = resolveApprovalPolicy(allowedDomains);
+
     // Handle different action types
     switch (action) {
       case 'START': {
         if (!goal) {
           return NextResponse.json(
-            { error: '请求体中缺少goal' },
+            { error: '请求体中缺少messages或goal' },
             { status: 400 }
           );
         }
 
+        const { models = {} } = body;
+        if (!isValidModelOverrides(models)) {
+          return NextResponse.json(
+            { error: '无效的模型配置' },
+            { status: 400 }
+          );
+        }
+        setSessionModels(sessionId, models);
+
         // Handle first step with URL selection
-        const { url, reasoning } = await selectStartingUrl(goal);
+        const { url, reasoning } = await selectStartingUrl(goal, sessionId);
         const firstStep = {
           text: `导航至 ${url}`,
           reasoning,
           tool: "GOTO" as const,
           instruction: url
         };
-        
+        const startReasons = evaluateStep(firstStep, policy);
+        if (startReasons.length > 0) {
+          return rejectRiskyStep(startReasons);
+        }
+
+        // 客户端保存计划，并在每次GET_NEXT_STEP时传回
+        const plan = await createTaskPlan({
+          goal,
+          earlierGoals,
+          startingUrl: url,
+          sessionID: sessionId,
+        });
+
         await runStagehand({
           sessionID: sessionId,
           method: "GOTO",
@@ -277,6 +133,7 @@ export async function POST(request: Request) {
           success: true,
           result: firstStep,
           steps: [firstStep],
+          plan,
           done: false
         });
       }
@@ -284,28 +141,90 @@ export async function POST(request: Request) {
       case 'GET_NEXT_STEP': {
         if (!goal) {
           return NextResponse.json(
-            { error: '请求体中缺少goal' },
+            { error: '请求体中缺少messages或goal' },
             { status: 400 }
           );
         }
 
+        const { plan, previousVerdict } = body;
+        if (plan !== undefined && !isValidTaskPlan(plan)) {
+          return NextResponse.json(
+            { error: '无效的任务计划' },
+            { status: 400 }
+          );
+        }
+        if (previousVerdict !== undefined && !isValidStepVerdict(previousVerdict)) {
+          return NextResponse.json(
+            { error: '无效的验证结果' },
+            { status: 400 }
+          );
+        }
+
+        // 逐步调用的接口只限制步数，并在出现循环时提醒模型
+        const limits = resolveRunLimits();
+        if (previousSteps.length >= limits.maxSteps) {
+          return NextResponse.json({
+            success: false,
+            done: true,
+            stopReason: 'max_steps',
+            error: describeStopReason('max_steps', limits),
+          });
+        }
+        const loop = detectLoop(previousSteps);
+        const notices = [
+          describeRemainingSteps(previousSteps.length, limits),
+          loop && describeLoopWarning(loop),
+          previousVerdict && describeVerdict(previousVerdict.stepNumber, previousVerdict),
+        ].filter((notice): notice is string => !!notice);
+
         // Get the next step from the LLM
         const { result, previousSteps: newPreviousSteps } = await sendPrompt({
           goal,
+          earlierGoals,
+          plan,
           sessionID: sessionId,
           previousSteps,
+          previousExtraction: getExtractionAfterStep(
+            sessionId,
+            previousSteps[previousSteps.length - 1]
+          ),
+          previousError: body.previousError,
+          notices,
         });
 
+        // 任务结束时，根据收集到的信息生成带引用的最终答案
+        const answer = result.tool === "CLOSE"
+          ? await synthesizeAnswer({
+              goal,
+              earlierGoals,
+              sessionID: sessionId,
+              previousSteps: newPreviousSteps,
+            })
+          : undefined;
+
+        // 风险步骤不能通过EXECUTE_STEP执行，客户端可以据此提示用户；
+        // 返回的步骤列表中把它记为被拒绝，下一次规划时模型知道它没有执行
+        const approvalReasons = evaluateStep(result, policy);
+        const steps = approvalReasons.length > 0
+          ? [
+              ...newPreviousSteps.slice(0, -1),
+              { ...result, approval: { status: "rejected" as const, reasons: approvalReasons } },
+            ]
+          : newPreviousSteps;
+
         return NextResponse.json({
           success: true,
           result,
-          steps: newPreviousSteps,
+          steps,
+          plan: plan && (applyPlanUpdate(plan, result.planUpdate) ?? plan),
+          answer,
+          approvalRequired: approvalReasons.length > 0 ? approvalReasons : undefined,
           done: result.tool === "CLOSE"
         });
       }
 
       case 'EXECUTE_STEP': {
-        const { step } = body;
+        const { step, stepNumber } = body;
         if (!step) {
           return NextResponse.json(
             { error: '请求体中缺少step' },
@@ -313,6 +232,11 @@ export async function POST(request: Request) {
           );
         }
 
+        const stepReasons = evaluateStep(step, policy);
+        if (stepReasons.length > 0) {
+          return rejectRiskyStep(stepReasons);
+        }
+
         try {
           // 处理USER_INPUT步骤
           if (step.tool === "USER_INPUT") {
@@ -323,23 +247,50 @@ export async function POST(request: Request) {
             });
           }
 
+          // 开启验证时记录执行前的页面，失败时跳过验证
+          const before = shouldVerifyStep(step)
+            ? await capturePageSnapshot(sessionId).catch((error) => {
+                console.error('Error capturing page before step:', error);
+                return undefined;
+              })
+            : undefined;
+
           // 处理其他步骤类型
-          const result = await runStagehand({
+          const result = await executeStep({
             sessionID: sessionId,
-            method: step.tool,
-            instruction: step.instruction,
+            step,
+            stepNumber: stepNumber ?? previousSteps.length,
           });
 
+          // 验证结果由客户端在下一次GET_NEXT_STEP时作为previousVerdict传回
+          const verdict = before
+            ? await capturePageSnapshot(sessionId)
+                .then((after) => verifyStep({ sessionID: sessionId, step, before, after }))
+                .catch((error) => {
+                  console.error('Error verifying step:', error);
+                  return undefined;
+                })
+            : undefined;
+
           return NextResponse.json({
             success: true,
             result,
+            verdict,
             done: step.tool === "CLOSE",
           });
         } catch (error) {
           console.error('Error executing step:', error);
+          // 非致命的失败返回给客户端，由它在下一次GET_NEXT_STEP时作为previousError传回
+          const stepError = classifyError(error);
           return NextResponse.json(
-            { error: '执行步骤时出错', details: (error as Error).message },
-            { status: 500 }
+            {
+              success: false,
+              error: '执行步骤时出错',
+              details: stepError.message,
+              failure: stepError.toFailure(),
+              fatal: stepError.fatal,
+            },
+            { status: stepError.fatal ? 500 : 200 }
           );
         }
       }
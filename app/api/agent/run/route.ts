@@ -0,0 +1,275 @@
+import { NextResponse } from 'next/server';
+import {
+  AgentRun,
+  cancelRun,
+  continueRun,
+  createRunEventStream,
+  decideApproval,
+  getRun,
+  isSessionRunActive,
+  requestPause,
+  resumePausedRun,
+  RunConflictError,
+  runStreamHeaders,
+  startRun,
+  steerRun,
+} from '../../agentRunner';
+import { isValidAllowedDomains, isValidApprovalDecision } from '../../approvalPolicy';
+import { readClientId } from '../../clientId';
+import { getSessionOwner } from '../../stagehandManager';
+import { isValidRunLimits } from '../../runBudget';
+import { isValidModelOverrides } from '@/utils/model';
+
+// 只有运行所在会话的创建者可以控制运行
+function isRunOwner(request: Request, run: AgentRun): boolean {
+  const owner = getSessionOwner(run.sessionId);
+  return !!owner && owner === readClientId(request);
+}
+
+function forbidden() {
+  return NextResponse.json(
+    { error: '无权操作其他客户端的运行' },
+    { status: 403 }
+  );
+}
+
+// 重新订阅一个正在进行或已结束的运行
+export async function GET(request: Request) {
+  const runId = new URL(request.url).searchParams.get('runId');
+  const run = runId ? getRun(runId) : undefined;
+
+  if (!run) {
+    return NextResponse.json(
+      { error: '找不到指定的运行' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(createRunEventStream(run), { headers: runStreamHeaders });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const {
+      goal,
+      sessionId,
+      runId,
+      action,
+      models = {},
+      limits = {},
+      allowedDomains,
+      decision,
+      reply,
+      message,
+    } = body;
+
+    switch (action) {
+      case 'START': {
+        if (!sessionId) {
+          return NextResponse.json(
+            { error: '请求体中缺少sessionId' },
+            { status: 400 }
+          );
+        }
+        if (typeof goal !== 'string' || !goal.trim()) {
+          return NextResponse.json(
+            { error: '请求体中缺少goal' },
+            { status: 400 }
+          );
+        }
+
+        if (!isValidModelOverrides(models)) {
+          return NextResponse.json(
+            { error: '无效的模型配置' },
+            { status: 400 }
+          );
+        }
+
+        if (!isValidRunLimits(limits)) {
+          return NextResponse.json(
+            { error: '无效的运行上限配置' },
+            { status: 400 }
+          );
+        }
+
+        if (allowedDomains !== undefined && !isValidAllowedDomains(allowedDomains)) {
+          return NextResponse.json(
+            { error: '无效的允许域名列表' },
+            { status: 400 }
+          );
+        }
+
+        if (isSessionRunActive(sessionId)) {
+          return NextResponse.json(
+            { error: '会话中已有进行中的运行，请等待它完成或先取消' },
+            { status: 409 }
+          );
+        }
+
+        const run = startRun({
+          goal: goal.trim(),
+          sessionId,
+          models,
+          limits,
+          allowedDomains,
+        });
+
+        return new Response(createRunEventStream(run), {
+          headers: { ...runStreamHeaders, 'X-Run-Id': run.runId },
+        });
+      }
+
+      // 在同一个浏览器会话中继续对话，之前的步骤、记忆和页面都会保留
+      case 'FOLLOW_UP': {
+        if (!runId) {
+          return NextResponse.json(
+            { error: '请求体中缺少runId' },
+            { status: 400 }
+          );
+        }
+        if (typeof goal !== 'string' || !goal.trim()) {
+          return NextResponse.json(
+            { error: '请求体中缺少goal' },
+            { status: 400 }
+          );
+        }
+
+        if (!isValidRunLimits(limits)) {
+          return NextResponse.json(
+            { error: '无效的运行上限配置' },
+            { status: 400 }
+          );
+        }
+
+        // 运行或会话已有进行中的运行时抛出RunConflictError
+        const run = await continueRun({
+          runId,
+          goal: goal.trim(),
+          sessionId: sessionId || undefined,
+          limits,
+        });
+        if (!run) {
+          return NextResponse.json(
+            { error: '找不到指定的运行' },
+            { status: 404 }
+          );
+        }
+
+        return new Response(createRunEventStream(run), {
+          headers: { ...runStreamHeaders, 'X-Run-Id': run.runId },
+        });
+      }
+
+      // 暂停、恢复和取消运行，状态由服务端记录，任何标签页或设备都可以操作
+      case 'PAUSE':
+      case 'RESUME':
+      case 'CANCEL': {
+        const run = runId ? getRun(runId) : undefined;
+        if (!run) {
+          return NextResponse.json(
+            { error: '找不到指定的运行' },
+            { status: 404 }
+          );
+        }
+        if (!isRunOwner(request, run)) {
+          return forbidden();
+        }
+        if (reply !== undefined && typeof reply !== 'string') {
+          return NextResponse.json(
+            { error: '无效的回复' },
+            { status: 400 }
+          );
+        }
+
+        const applied =
+          action === 'PAUSE'
+            ? requestPause(run)
+            : action === 'RESUME'
+              ? resumePausedRun(run, reply?.trim() || undefined)
+              : cancelRun(run);
+        if (!applied) {
+          return NextResponse.json(
+            { error: '运行当前的状态不支持该操作', status: run.status },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({ success: true, status: run.status });
+      }
+
+      // 运行中补充一条指令，在下一次规划时交给模型
+      case 'STEER': {
+        const run = runId ? getRun(runId) : undefined;
+        if (!run) {
+          return NextResponse.json(
+            { error: '找不到指定的运行' },
+            { status: 404 }
+          );
+        }
+        if (!isRunOwner(request, run)) {
+          return forbidden();
+        }
+        if (typeof message !== 'string' || !message.trim()) {
+          return NextResponse.json(
+            { error: '请求体中缺少message' },
+            { status: 400 }
+          );
+        }
+
+        if (!steerRun(run, message.trim())) {
+          return NextResponse.json(
+            { error: '运行当前的状态不支持该操作', status: run.status },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      // 用户对风险步骤的决定：批准、修改后执行或拒绝
+      case 'APPROVAL': {
+        const run = runId ? getRun(runId) : undefined;
+        if (!run) {
+          return NextResponse.json(
+            { error: '找不到指定的运行' },
+            { status: 404 }
+          );
+        }
+        if (!isRunOwner(request, run)) {
+          return forbidden();
+        }
+        if (!isValidApprovalDecision(decision)) {
+          return NextResponse.json(
+            { error: '无效的审批决定' },
+            { status: 400 }
+          );
+        }
+
+        if (!decideApproval(run, decision)) {
+          return NextResponse.json(
+            { error: '没有等待审批的步骤' },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: '无效的action类型' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    if (error instanceof RunConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('Agent运行端点错误:', error);
+    return NextResponse.json(
+      { success: false, error: '处理请求失败' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,566 @@
+import { getModel } from '@/utils/model';
+import { CoreMessage, generateObject, UserContent } from "ai";
+import { z } from "zod";
+import {
+  closeStagehandInstance,
+  closeTab,
+  getActivePage,
+  listTabs,
+  openTab,
+  switchTab,
+  TabInfo,
+} from './stagehandManager';
+import { addMemoryEntry, formatMemoryContent, MemoryContent, summarizeMemory } from './agentMemory';
+import { ApprovalRecord } from './approvalPolicy';
+import { parseExtractSchema, validateExtraction } from './extractSchema';
+import {
+  annotateElementReference,
+  buildPageDigest,
+  formatPageDigest,
+  PageDigest,
+  resolveElementReferences,
+  setPageDigest,
+} from './pageDigest';
+import { DIRECT_ACTION_TOOLS, isDirectActionTool, runDirectAction } from './directActions';
+import { parseWaitCondition, resolveWaitTimeout, waitForCondition } from './waitConditions';
+import { classifyError, StepError, StepFailure, withRetries } from './stepErrors';
+import { addTokenUsage } from './runBudget';
+import { describeEarlierGoals } from './conversation';
+import { formatTaskPlan, PlanUpdate, planUpdateSchema, TaskPlan } from './taskPlan';
+import { MAX_SUBTASKS, subtasksSchema } from './fanOut';
+
+export type Step = {
+  text: string;
+  reasoning: string;
+  tool:
+    | "GOTO"
+    | "ACT"
+    | "EXTRACT"
+    | "OBSERVE"
+    | "CLOSE"
+    | "WAIT"
+    | "NAVBACK"
+    | "USER_INPUT"
+    | "NEW_TAB"
+    | "LIST_TABS"
+    | "SWITCH_TAB"
+    | "CLOSE_TAB"
+    | "CLICK"
+    | "TYPE"
+    | "PRESS_KEY"
+    | "SCROLL"
+    | "SELECT_OPTION"
+    | "HOVER"
+    | "WAIT_FOR_SELECTOR"
+    | "FAN_OUT";
+  instruction: string;
+  // EXTRACT步骤可选的JSON Schema文本，提供时按schema提取结构化数据
+  schema?: string;
+  // 直接操作工具的参数：输入的文本、按键、选项、滚动距离或等待时间
+  value?: string;
+  // 规划该步骤时对任务计划的更新
+  planUpdate?: PlanUpdate;
+  // FAN_OUT步骤拆分出的子任务目标，每个子任务在自己的浏览器中并行运行
+  subtasks?: string[];
+};
+
+// 之前规划的步骤，用户拒绝的风险步骤带有审批记录，它没有被执行
+export type PreviousStep = Step & { approval?: Pick<ApprovalRecord, "status"> };
+
+// 告诉模型被拒绝的步骤没有执行，避免把它当作已经完成的操作
+function describeRejectedStep(step: PreviousStep): string {
+  return step.approval?.status === "rejected" ? " [用户拒绝执行，该步骤没有发生]" : "";
+}
+
+// 可以安全重复的操作，超时或导航失败时按退避时间重试；点击、后退、打开标签页等
+// 操作超时后可能已经生效，重试会重复执行，失败直接交给规划模型决定下一步
+const RETRYABLE_METHODS: (Step["tool"] | "SCREENSHOT")[] = [
+  "GOTO",
+  "SCREENSHOT",
+  "EXTRACT",
+  "OBSERVE",
+  "LIST_TABS",
+];
+
+export async function runStagehand({
+  sessionID,
+  method,
+  instruction,
+  schema,
+  value,
+}: {
+  sessionID: string;
+  method: Step["tool"] | "SCREENSHOT";
+  instruction?: string;
+  schema?: string;
+  value?: string;
+}) {
+  const operation = async () => {
+    const page = await getActivePage(sessionID);
+
+    switch (method) {
+      case "GOTO":
+        await page.goto(instruction!, {
+          waitUntil: "domcontentloaded",
+          timeout: 60000,
+        });
+        break;
+
+      case "ACT": {
+        const { success, message } = await page.act(instruction!);
+        if (!success) {
+          throw new StepError("element_not_found", message);
+        }
+        break;
+      }
+
+      case "EXTRACT": {
+        if (schema) {
+          const extractSchema = parseExtractSchema(schema);
+          const extraction = await page.extract({
+            instruction: instruction!,
+            schema: extractSchema.schema,
+          });
+          return validateExtraction(extractSchema, extraction);
+        }
+        const { extraction } = await page.extract(instruction!);
+        return extraction;
+      }
+
+      case "OBSERVE":
+        return await page.observe({
+          instruction,
+          useAccessibilityTree: true,
+        });
+
+      // 完成当前目标，浏览器会话保留给后续请求，由用户关闭或空闲回收
+      case "CLOSE":
+        break;
+
+      case "SCREENSHOT": {
+        const cdpSession = await page.context().newCDPSession(page);
+        const { data } = await cdpSession.send("Page.captureScreenshot");
+        return data;
+      }
+
+      case "WAIT":
+        return await waitForCondition(
+          page,
+          parseWaitCondition(instruction ?? ""),
+          resolveWaitTimeout(value)
+        );
+
+      case "NAVBACK":
+        await page.goBack();
+        break;
+
+      case "USER_INPUT":
+        return {
+          status: "waiting_for_user",
+          message: instruction || "请处理验证码或登录信息",
+        };
+
+      // 标签页操作返回操作后的标签页列表
+      case "NEW_TAB":
+        await openTab(sessionID, instruction?.trim() || undefined);
+        return await listTabs(sessionID);
+
+      case "LIST_TABS":
+        return await listTabs(sessionID);
+
+      case "SWITCH_TAB":
+        await switchTab(sessionID, instruction ?? "");
+        return await listTabs(sessionID);
+
+      case "CLOSE_TAB":
+        await closeTab(sessionID, instruction ?? "");
+        return await listTabs(sessionID);
+
+      case "CLICK":
+      case "TYPE":
+      case "PRESS_KEY":
+      case "SCROLL":
+      case "SELECT_OPTION":
+      case "HOVER":
+      case "WAIT_FOR_SELECTOR":
+        return await runDirectAction({
+          page,
+          sessionID,
+          tool: method,
+          instruction: instruction ?? "",
+          value,
+        });
+    }
+  };
+
+  try {
+    return await (RETRYABLE_METHODS.includes(method) ? withRetries(operation) : operation());
+  } catch (error) {
+    // 只有会话失效时才关闭浏览器，其他失败交给规划模型换一种方法
+    const stepError = classifyError(error);
+    if (stepError.fatal) {
+      await closeStagehandInstance(sessionID);
+    }
+    throw stepError;
+  }
+}
+
+export async function sendPrompt({
+  goal,
+  earlierGoals = [],
+  plan,
+  sessionID,
+  previousSteps = [],
+  previousExtraction,
+  previousError,
+  notices = [],
+  allowFanOut = false,
+}: {
+  goal: string;
+  // 同一会话中之前已完成的目标
+  earlierGoals?: string[];
+  // 当前目标的子目标清单
+  plan?: TaskPlan;
+  // 是否可以用FAN_OUT拆分并行子任务，只有服务端运行的协调运行可以
+  allowFanOut?: boolean;
+  sessionID: string;
+  previousSteps?: PreviousStep[];
+  previousExtraction?: MemoryContent;
+  previousError?: StepFailure & { stepNumber: number };
+  notices?: string[];
+}) {
+  let currentUrl = "";
+  let tabs: TabInfo[] = [];
+  let digest: PageDigest | undefined;
+
+  try {
+    const page = await getActivePage(sessionID);
+    currentUrl = page.url();
+    tabs = await listTabs(sessionID);
+    if (currentUrl !== "about:blank") {
+      digest = await buildPageDigest(page);
+      setPageDigest(sessionID, digest);
+    }
+  } catch (error) {
+    console.error('Error getting page info:', error);
+  }
+
+  const memorySummary = summarizeMemory(sessionID);
+
+  const content: UserContent = [
+    {
+      type: "text",
+      text: `你是一个网页浏览助手，帮助用户完成目标: "${goal}"。
+${describeEarlierGoals(earlierGoals)}${
+  previousSteps.length > 0
+    ? `
+到目前为止，你已经执行了以下步骤:
+${previousSteps
+  .map(
+    (step, i) =>
+      `${i + 1}. ${step.text} (使用工具: ${step.tool}, 指令: ${
+        step.instruction
+      }${step.value ? `, 值: ${step.value}` : ""})${describeRejectedStep(step)}`
+  )
+  .join("\n")}
+
+当前URL是: ${currentUrl}
+`
+    : ""
+}
+${
+  plan
+    ? `
+任务计划（第 ${plan.revision} 版）:
+${formatTaskPlan(plan)}
+完成子目标后，在planUpdate.completed中填写它的编号；无法完成或不再需要的子目标填写在planUpdate.skipped中。
+了解到新情况需要调整计划时，在planUpdate.revisedSubgoals中给出替换所有未完成子目标的新清单。
+所有子目标都完成或跳过后再使用CLOSE。
+`
+    : ""
+}
+${
+  digest
+    ? `
+当前页面摘要:
+${formatPageDigest(digest)}
+`
+    : ""
+}
+${
+  tabs.length > 1
+    ? `
+当前打开的标签页:
+${tabs
+  .map(
+    (tab) =>
+      `${tab.index}. ${tab.title || "(无标题)"} - ${tab.url}${tab.active ? " (当前)" : ""}`
+  )
+  .join("\n")}
+`
+    : ""
+}
+${
+  previousExtraction
+    ? `
+上一步的提取或观察结果:
+${formatMemoryContent(previousExtraction)}
+`
+    : ""
+}
+${
+  memorySummary
+    ? `
+到目前为止收集到的信息（按步骤记录）:
+${memorySummary}
+`
+    : ""
+}
+${
+  previousError
+    ? `
+上一步（步骤 ${previousError.stepNumber}）执行失败，共尝试了 ${previousError.attempts} 次:
+错误类型: ${previousError.kind}
+错误信息: ${previousError.message}
+请不要原样重复这一步，换一种方法继续（例如换一种描述元素的方式、先用OBSERVE查看页面，或者导航到其他页面）。
+`
+    : ""
+}
+${
+  notices.length > 0
+    ? `
+系统提醒:
+${notices.map((notice) => `- ${notice}`).join("\n")}
+`
+    : ""
+}
+
+请决定下一步操作。你可以使用以下工具:
+1. GOTO: 导航到一个URL
+2. ACT: 在页面上执行操作 (点击, 输入文本等)，可以用 [序号] 指代页面摘要中的元素，例如 "click [3]" 或 "type 'NVDA' into [5]"
+3. EXTRACT: 从页面提取信息
+4. OBSERVE: 观察页面的当前状态
+5. WAIT: 等待条件满足，指令为毫秒数（如 "2000"）、"networkidle"（网络空闲）、"selector:<选择器>"、"text:<页面上出现的文字>" 或 "url:<URL片段或/正则/>"，value为最长等待毫秒数（默认10000，最多30000）
+6. NAVBACK: 返回上一页
+7. CLOSE: 完成当前目标（浏览器会话会保留，用户可以继续提出后续请求）
+8. USER_INPUT: 当遇到验证码、登录要求或其他需要用户手动操作的情况时使用此工具，系统将暂停自动操作，等待用户手动处理后继续
+9. NEW_TAB: 打开一个新标签页并切换过去，指令为要打开的URL（可以为空）
+10. LIST_TABS: 列出所有打开的标签页
+11. SWITCH_TAB: 切换到另一个标签页，指令为标签页序号或URL中的文字
+12. CLOSE_TAB: 关闭一个标签页，指令为标签页序号，为空时关闭当前标签页
+
+以下工具直接操作页面，不经过额外的模型调用，速度快且结果可重复。指令为目标元素: 页面摘要中的 [序号]，或者CSS/Playwright选择器；参数放在value字段中:
+13. CLICK: 点击目标元素
+14. TYPE: 清空目标输入框并输入value中的文本
+15. PRESS_KEY: 按下value中的按键（如Enter、Tab、Escape），指令为空时在当前焦点上按键
+16. SCROLL: 指令为空时按value滚动页面（down、up或像素数，默认down），否则把目标元素滚动到可见位置
+17. SELECT_OPTION: 在目标下拉框中选择value对应的选项（选项值或文字）
+18. HOVER: 把鼠标悬停在目标元素上
+19. WAIT_FOR_SELECTOR: 等待目标元素出现，value为最长等待毫秒数（默认10000，最多30000）
+目标明确且在页面摘要中时优先使用这些工具，复杂或模糊的操作再使用ACT。
+${
+  allowFanOut
+    ? `
+20. FAN_OUT: 把可以互相独立完成的工作（例如在几个不同的网站上查找同一件商品的价格）拆分为并行的子任务，在subtasks中给出2到${MAX_SUBTASKS}个子任务目标，指令为拆分的说明。每个子任务在自己的浏览器中运行，全部结束后它们收集到的信息会合并到你的记忆中
+`
+    : ""
+}
+点击链接打开新标签页或弹窗时，会自动切换到新标签页。
+
+请提供:
+1. 你的推理过程
+2. 要使用的工具
+3. 详细的指令
+4. 使用EXTRACT提取列表、表格等结构化数据时，可以在schema字段中提供JSON Schema，例如:
+{"type":"array","items":{"type":"object","properties":{"name":{"type":"string"},"price":{"type":"number"},"url":{"type":"string"}},"required":["name","price"]}}
+支持的类型为object、array、string、number、integer、boolean，以及enum、nullable和description。
+
+如果你遇到验证码、登录页面或其他需要用户手动操作的情况，请使用USER_INPUT工具，并在指令中清楚说明用户需要做什么。`,
+    },
+  ];
+
+  // Add screenshot if navigated to a page previously
+  if (previousSteps.length > 0 && previousSteps.some((step) => step.tool === "GOTO")) {
+    content.push({
+      type: "image",
+      image: (await runStagehand({
+        sessionID,
+        method: "SCREENSHOT",
+      })) as string,
+    });
+  }
+
+  const message: CoreMessage = {
+    role: "user",
+    content,
+  };
+
+  const stepSchema = z.object({
+    text: z.string(),
+    reasoning: z.string(),
+    tool: z.enum([
+      "GOTO",
+      "ACT",
+      "EXTRACT",
+      "OBSERVE",
+      "CLOSE",
+      "WAIT",
+      "NAVBACK",
+      "USER_INPUT",
+      "NEW_TAB",
+      "LIST_TABS",
+      "SWITCH_TAB",
+      "CLOSE_TAB",
+      ...DIRECT_ACTION_TOOLS,
+      ...(allowFanOut ? (["FAN_OUT"] as const) : []),
+    ]),
+    instruction: z.string(),
+    schema: z
+      .string()
+      .optional()
+      .describe("仅用于EXTRACT: 描述要提取的数据结构的JSON Schema文本"),
+    value: z
+      .string()
+      .optional()
+      .describe("仅用于直接操作工具: 输入的文本、按键、选项、滚动距离或等待时间"),
+    planUpdate: planUpdateSchema,
+  });
+
+  const result = await generateObject({
+    model: getModel("planner", sessionID),
+    // 只有协调运行的步骤可以带子任务
+    schema: allowFanOut ? stepSchema.extend({ subtasks: subtasksSchema }) : stepSchema,
+    messages: [message],
+  });
+  addTokenUsage(sessionID, result.usage.totalTokens);
+
+  // 将ACT指令中的元素序号替换为元素描述，直接操作的序号后附上元素描述，审批规则看到的都是具体的元素
+  const step: Step =
+    result.object.tool === "ACT"
+      ? { ...result.object, instruction: resolveElementReferences(result.object.instruction, digest) }
+      : isDirectActionTool(result.object.tool)
+        ? { ...result.object, instruction: annotateElementReference(result.object.instruction, digest) }
+        : result.object;
+
+  return {
+    result: step,
+    previousSteps: [...previousSteps, step],
+  };
+}
+
+export async function selectStartingUrl(goal: string, sessionID?: string) {
+  const message: CoreMessage = {
+    role: "user",
+    content: [{
+      type: "text",
+      text: `根据目标: "${goal}", 确定最佳的起始URL。
+可选择:
+1. 相关搜索引擎 (Baidu, Google, Bing等)
+2. 如果你确定目标网站，可以直接使用其URL
+3. 任何其他适合的起始点
+
+返回一个最有效实现此目标的URL。`
+    }]
+  };
+
+  const result = await generateObject({
+    model: getModel("starter", sessionID),
+    schema: z.object({
+      url: z.string().url(),
+      reasoning: z.string()
+    }),
+    messages: [message]
+  });
+  if (sessionID) {
+    addTokenUsage(sessionID, result.usage.totalTokens);
+  }
+
+  return result.object;
+}
+
+export async function synthesizeAnswer({
+  goal,
+  earlierGoals = [],
+  sessionID,
+  previousSteps,
+}: {
+  goal: string;
+  earlierGoals?: string[];
+  sessionID: string;
+  previousSteps: PreviousStep[];
+}) {
+  const memorySummary = summarizeMemory(sessionID);
+
+  const message: CoreMessage = {
+    role: "user",
+    content: [{
+      type: "text",
+      text: `你已经完成了浏览任务，目标是: "${goal}"。
+${describeEarlierGoals(earlierGoals)}
+执行过的步骤:
+${previousSteps
+  .map((step, i) => `${i + 1}. ${step.text} (使用工具: ${step.tool})${describeRejectedStep(step)}`)
+  .join("\n")}
+
+收集到的信息（按步骤记录，包含来源URL）:
+${memorySummary || "（没有收集到任何提取或观察结果）"}
+
+请根据收集到的信息，用与目标相同的语言给出最终答案。
+要求:
+1. 只使用上面收集到的信息，不要编造
+2. 为答案中的每一条结论给出引用，注明来源URL和步骤编号
+3. 如果信息不足以回答，请在答案中明确说明`
+    }]
+  };
+
+  const result = await generateObject({
+    model: getModel("planner", sessionID),
+    schema: z.object({
+      answer: z.string(),
+      citations: z.array(
+        z.object({
+          claim: z.string(),
+          url: z.string(),
+          stepNumber: z.number(),
+        })
+      ),
+    }),
+    messages: [message]
+  });
+  addTokenUsage(sessionID, result.usage.totalTokens);
+
+  return result.object;
+}
+
+// 执行一个步骤，并将提取和观察结果记入会话记忆，供后续规划使用
+export async function executeStep({
+  sessionID,
+  step,
+  stepNumber,
+}: {
+  sessionID: string;
+  step: Step;
+  stepNumber: number;
+}) {
+  const result = await runStagehand({
+    sessionID,
+    method: step.tool,
+    instruction: step.instruction,
+    schema: step.schema,
+    value: step.value,
+  });
+
+  if ((step.tool === "EXTRACT" || step.tool === "OBSERVE") && result) {
+    const page = await getActivePage(sessionID);
+    addMemoryEntry(sessionID, {
+      stepNumber,
+      tool: step.tool,
+      instruction: step.instruction,
+      url: page.url(),
+      content: result as MemoryContent,
+      timestamp: Date.now(),
+    });
+  }
+
+  return result;
+}
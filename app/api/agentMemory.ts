@@ -0,0 +1,91 @@
+import { ObserveResult } from "@browserbasehq/stagehand";
+
+// 提取的文本、按schema提取的结构化数据或观察到的元素
+export type MemoryContent = string | ObserveResult[] | unknown[] | Record<string, unknown>;
+
+// 一条记忆：某个步骤产生的提取或观察结果
+export type MemoryEntry = {
+  stepNumber: number;
+  tool: "EXTRACT" | "OBSERVE";
+  instruction: string;
+  url: string;
+  content: MemoryContent;
+  timestamp: number;
+};
+
+// 摘要中单条记录的最大字符数
+const MAX_ENTRY_CHARS = 1500;
+// 摘要的总字符预算
+const MAX_SUMMARY_CHARS = 6000;
+
+// 存储会话ID到记忆列表的映射
+const agentMemories: Map<string, MemoryEntry[]> = new Map();
+
+// 记录一条提取或观察结果
+export function addMemoryEntry(sessionID: string, entry: MemoryEntry): void {
+  const entries = agentMemories.get(sessionID) ?? [];
+  entries.push(entry);
+  agentMemories.set(sessionID, entries);
+}
+
+// 获取会话的全部记忆
+export function getMemory(sessionID: string): MemoryEntry[] {
+  return agentMemories.get(sessionID) ?? [];
+}
+
+// 获取会话最近的一条记忆
+export function getLatestMemoryEntry(sessionID: string): MemoryEntry | undefined {
+  const entries = getMemory(sessionID);
+  return entries[entries.length - 1];
+}
+
+// 上一步是提取或观察时返回它的结果，只在紧接着的一次规划中单独展示；
+// 之后的规划从有长度上限的记忆摘要中看到它。传入步骤编号时还要求记忆来自该步骤
+export function getExtractionAfterStep(
+  sessionID: string,
+  lastStep?: { tool: string; stepNumber?: number }
+): MemoryContent | undefined {
+  if (lastStep?.tool !== "EXTRACT" && lastStep?.tool !== "OBSERVE") return undefined;
+  const entry = getLatestMemoryEntry(sessionID);
+  if (!entry || (lastStep.stepNumber !== undefined && entry.stepNumber !== lastStep.stepNumber)) {
+    return undefined;
+  }
+  return entry.content;
+}
+
+// 清除会话的记忆
+export function clearMemory(sessionID: string): void {
+  agentMemories.delete(sessionID);
+}
+
+// 格式化一条记忆的内容，超出长度上限时截断
+export function formatMemoryContent(content: MemoryContent): string {
+  const text =
+    typeof content === "string" ? content : JSON.stringify(content, null, 2);
+  return text.length > MAX_ENTRY_CHARS
+    ? `${text.slice(0, MAX_ENTRY_CHARS)}...（已截断）`
+    : text;
+}
+
+// 生成有长度上限的记忆摘要，优先保留最近的记录
+export function summarizeMemory(sessionID: string): string {
+  const entries = getMemory(sessionID);
+  const lines: string[] = [];
+  let used = 0;
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    const line = `[步骤 ${entry.stepNumber}] ${entry.tool} "${entry.instruction}" @ ${entry.url}
+${formatMemoryContent(entry.content)}`;
+
+    if (used + line.length > MAX_SUMMARY_CHARS && lines.length > 0) {
+      lines.unshift(`（省略了较早的 ${i + 1} 条记录）`);
+      break;
+    }
+
+    lines.unshift(line);
+    used += line.length;
+  }
+
+  return lines.join("\n\n");
+}
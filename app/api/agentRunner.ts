@@ -0,0 +1,1189 @@
+import {
+  addMemoryEntry,
+  getExtractionAfterStep,
+  getMemory,
+  MemoryEntry,
+} from "./agentMemory";
+import {
+  executeStep,
+  runStagehand,
+  selectStartingUrl,
+  sendPrompt,
+  Step,
+  synthesizeAnswer,
+} from "./agentCore";
+import {
+  ApprovalDecision,
+  ApprovalPolicy,
+  ApprovalReason,
+  ApprovalRecord,
+  describeRejection,
+  evaluateStep,
+  resolveApprovalPolicy,
+} from "./approvalPolicy";
+import { RunTurn } from "./conversation";
+import { applyPlanUpdate, createTaskPlan, TaskPlan } from "./taskPlan";
+import {
+  addTokenUsage,
+  checkBudget,
+  clearTokenUsage,
+  describeLoopWarning,
+  describeRemainingSteps,
+  describeStopReason,
+  detectLoop,
+  getTokenUsage,
+  resolveRunLimits,
+  RunLimits,
+  StopReason,
+} from "./runBudget";
+import {
+  loadRun,
+  saveRun,
+  saveScreenshot,
+  ScreenshotPhase,
+  StoredRun,
+  StoredStep,
+} from "./runStore";
+import { classifyError, StepError, StepFailure } from "./stepErrors";
+import { describeUnmetWait, WaitResult } from "./waitConditions";
+import {
+  capturePageSnapshot,
+  describeVerdict,
+  PageSnapshot,
+  shouldVerifyStep,
+  StepVerdict,
+  verifyStep,
+} from "./stepVerifier";
+import {
+  closeStagehandInstance,
+  getActivePage,
+  getSessionOwner,
+  registerSessionOwner,
+  retainSession,
+} from "./stagehandManager";
+import { createSession, endSession } from "./browserSessions";
+import {
+  ChildRunSummary,
+  describeChildRuns,
+  mapWithConcurrency,
+  mergeChildMemory,
+  normalizeSubtasks,
+  resolveMaxParallelChildren,
+} from "./fanOut";
+import { ModelOverrides, setSessionModels } from "@/utils/model";
+
+export type NumberedStep = Step & { stepNumber: number };
+
+export type FinalAnswer = Awaited<ReturnType<typeof synthesizeAnswer>>;
+
+// 服务端运行循环推送给客户端的事件
+export type RunEvent =
+  | { type: "planned"; step: NumberedStep }
+  | { type: "executing"; stepNumber: number }
+  | { type: "result"; stepNumber: number; result?: unknown }
+  | { type: "verified"; stepNumber: number; verdict: StepVerdict }
+  | { type: "failed"; stepNumber: number; error: StepFailure }
+  | { type: "warning"; message: string; stepNumber?: number }
+  | { type: "approval_required"; stepNumber: number; reasons: ApprovalReason[] }
+  | { type: "approval"; step: NumberedStep; approval: ApprovalRecord }
+  | { type: "paused"; pause: PauseState }
+  | { type: "resumed"; reply?: string }
+  | { type: "steered"; message: string }
+  | { type: "plan"; plan: TaskPlan }
+  | { type: "fan_out"; stepNumber: number; subtasks: string[] }
+  // 子运行的事件，index为子任务在FAN_OUT步骤中的序号
+  | { type: "child"; stepNumber: number; index: number; runId: string; event: RunEvent }
+  | { type: "screenshot"; stepNumber: number; phase: ScreenshotPhase; url: string }
+  | { type: "error"; message: string; stepNumber?: number }
+  | { type: "stopped"; reason: StopReason; message: string }
+  | { type: "done"; answer?: FinalAnswer };
+
+// 运行暂停等待用户时的状态
+export type PauseState = {
+  // agent: USER_INPUT步骤请求用户操作；user: 用户主动暂停
+  requestedBy: "agent" | "user";
+  message: string;
+  stepNumber?: number;
+  since: number;
+};
+
+export type AgentRun = {
+  runId: string;
+  // FAN_OUT拆分出的子运行记录协调运行的ID
+  parentRunId?: string;
+  sessionId: string;
+  // 第一轮对话的目标，用作运行的标题
+  goal: string;
+  // 对话中的每一轮，最后一轮是当前的目标
+  turns: RunTurn[];
+  // 当前目标的子目标清单，每一轮开始时重新制定
+  plan?: TaskPlan;
+  models: ModelOverrides;
+  status: "running" | "paused_for_user" | "done" | "error" | "stopped";
+  steps: StoredStep[];
+  // 会话记忆的副本，会话关闭后仍可用于持久化和恢复
+  memory: MemoryEntry[];
+  answer?: FinalAnswer;
+  error?: string;
+  lastUrl?: string;
+  createdAt: number;
+  limits: RunLimits;
+  stopReason?: StopReason;
+  // 本次启动、恢复或后续请求的时间和已有步数，上限按每次启动分别计算
+  startedAt: number;
+  startStepCount: number;
+  // 之前的会话中已消耗的token数
+  priorTokens: number;
+  // 已警告过模型的循环，再次检测到循环时停止运行
+  loopWarning?: string;
+  loopWarnedAtStep?: number;
+  policy: ApprovalPolicy;
+  // 风险步骤等待审批时，用于提交用户决定的回调
+  resolveApproval?: (decision: ApprovalDecision) => void;
+  // 用户拒绝的步骤，会在下一次规划时告诉模型
+  rejection?: string;
+  events: RunEvent[];
+  listeners: Set<(event: RunEvent) => void>;
+  // 串行化的持久化队列，保证后写入的状态不会被先写入的覆盖
+  saving: Promise<void>;
+  pause?: PauseState;
+  // 暂停时用于恢复运行的回调，可以带上用户的回复
+  resumeFromPause?: (reply?: string) => void;
+  // 用户请求的暂停在当前步骤结束后生效，取消会中止当前步骤
+  pauseRequested: boolean;
+  cancelRequested: boolean;
+  // 用户恢复运行时的回复，会在下一次规划时告诉模型
+  userReply?: string;
+  // 用户在运行中补充的指令，会在下一次规划时告诉模型
+  steering: string[];
+  // 取消时中止正在进行的规划或步骤
+  abortStep?: () => void;
+  // 最近一次失败，会在下一次规划时告诉模型
+  lastError?: StepFailure & { stepNumber: number };
+  consecutiveFailures: number;
+  // 正在进行的子运行，取消协调运行时一起取消
+  children: AgentRun[];
+};
+
+// 连续失败达到该次数时停止运行
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// 结束的运行写入运行记录后在内存中保留的时间（毫秒），之后从运行记录读取
+const FINISHED_RUN_RETENTION_MS = 60 * 1000;
+
+// 用户取消运行时中止正在进行的规划或步骤
+class RunCancelledError extends Error {
+  constructor() {
+    super("运行已被用户取消");
+    this.name = "RunCancelledError";
+  }
+}
+
+// 运行或会话已被另一个运行占用，不能再启动运行
+export class RunConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RunConflictError";
+  }
+}
+
+// 存储运行ID到运行状态的映射
+const agentRuns: Map<string, AgentRun> = new Map();
+
+// 正在读取运行记录、尚未开始循环的运行和会话，读取期间不能再启动其他运行
+const startingRuns: Set<string> = new Set();
+const startingSessions: Set<string> = new Set();
+
+// 检查运行和会话都空闲，并在读取运行记录前占用它们；返回释放函数
+function claimRun(runId: string, sessionId?: string): () => void {
+  if (isRunActive(runId)) {
+    throw new RunConflictError("运行仍在进行中，请等待当前目标完成");
+  }
+  if (sessionId && isSessionRunActive(sessionId)) {
+    throw new RunConflictError("会话中已有进行中的运行，请等待它完成或先取消");
+  }
+  startingRuns.add(runId);
+  if (sessionId) {
+    startingSessions.add(sessionId);
+  }
+  return () => {
+    startingRuns.delete(runId);
+    if (sessionId) {
+      startingSessions.delete(sessionId);
+    }
+  };
+}
+
+// 将运行的当前状态写入运行记录
+function persistRun(run: AgentRun) {
+  const snapshot = {
+    runId: run.runId,
+    parentRunId: run.parentRunId,
+    sessionId: run.sessionId,
+    goal: run.goal,
+    turns: run.turns.map((turn) => ({ ...turn })),
+    plan: run.plan,
+    models: run.models,
+    status: run.status,
+    pause: run.pause,
+    steps: run.steps.map((step) => ({ ...step })),
+    memory: [...run.memory],
+    answer: run.answer,
+    error: run.error,
+    lastUrl: run.lastUrl,
+    limits: run.limits,
+    allowedDomains: run.policy.allowedDomains,
+    stopReason: run.stopReason,
+    tokensUsed: run.priorTokens + getTokenUsage(run.sessionId),
+    createdAt: run.createdAt,
+    updatedAt: Date.now(),
+  };
+  run.saving = run.saving
+    .then(() => saveRun(snapshot))
+    .catch((error) => {
+      console.error(`Error saving run ${run.runId}:`, error);
+    });
+}
+
+function emit(run: AgentRun, event: RunEvent) {
+  run.events.push(event);
+  for (const listener of run.listeners) {
+    listener(event);
+  }
+  persistRun(run);
+}
+
+// 记录步骤执行前或执行后的页面URL和截图，返回截图；失败不影响运行
+async function recordPageState(
+  run: AgentRun,
+  step: StoredStep,
+  phase: ScreenshotPhase
+): Promise<string | undefined> {
+  try {
+    const url = (await getActivePage(run.sessionId)).url();
+    if (phase === "before") {
+      step.beforeUrl = url;
+    } else {
+      step.url = url;
+      run.lastUrl = url;
+    }
+
+    const data = (await runStagehand({
+      sessionID: run.sessionId,
+      method: "SCREENSHOT",
+    })) as string;
+    await saveScreenshot(run.runId, step.stepNumber, data, phase);
+    if (phase === "before") {
+      step.hasBeforeScreenshot = true;
+    } else {
+      step.hasScreenshot = true;
+    }
+    emit(run, { type: "screenshot", stepNumber: step.stepNumber, phase, url });
+    return data;
+  } catch (error) {
+    console.error(`Error recording page state for run ${run.runId}:`, error);
+  }
+}
+
+// 记录需要验证的步骤执行前的页面状态，失败时跳过验证
+async function captureBeforeVerification(
+  run: AgentRun,
+  step: StoredStep,
+  screenshot?: string
+): Promise<PageSnapshot | undefined> {
+  if (!shouldVerifyStep(step)) return undefined;
+  try {
+    return await capturePageSnapshot(run.sessionId, screenshot);
+  } catch (error) {
+    console.error(`Error capturing page before step ${step.stepNumber}:`, error);
+  }
+}
+
+// 对比执行前后的页面，验证步骤是否达到了意图；验证失败不影响运行
+async function verifyExecutedStep(
+  run: AgentRun,
+  step: StoredStep,
+  before: PageSnapshot,
+  screenshot?: string
+) {
+  try {
+    const after = await capturePageSnapshot(run.sessionId, screenshot);
+    step.verdict = await abortable(
+      run,
+      verifyStep({ sessionID: run.sessionId, step, before, after })
+    );
+    emit(run, { type: "verified", stepNumber: step.stepNumber, verdict: step.verdict });
+  } catch (error) {
+    if (error instanceof RunCancelledError) {
+      throw error;
+    }
+    console.error(`Error verifying step ${step.stepNumber}:`, error);
+  }
+}
+
+// 失败的步骤也记录执行后的页面，会话已失效时跳过
+async function recordFailedPageState(run: AgentRun, step: StoredStep, error: unknown) {
+  if (!classifyError(error).fatal) {
+    await recordPageState(run, step, "after");
+  }
+}
+
+function recordStepSuccess(run: AgentRun, step: StoredStep) {
+  step.finishedAt = Date.now();
+  run.lastError = undefined;
+  run.consecutiveFailures = 0;
+}
+
+// 记录非致命的步骤失败并继续运行；会话失效或连续失败过多时抛出，结束运行
+function recordStepFailure(run: AgentRun, step: StoredStep, error: unknown) {
+  const stepError = classifyError(error);
+  if (stepError.fatal) {
+    throw stepError;
+  }
+
+  step.error = stepError.toFailure();
+  step.finishedAt = Date.now();
+  run.lastError = { ...step.error, stepNumber: step.stepNumber };
+  run.consecutiveFailures += 1;
+  emit(run, { type: "failed", stepNumber: step.stepNumber, error: step.error });
+
+  if (run.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    throw new Error(`连续 ${run.consecutiveFailures} 个步骤执行失败，运行已停止`);
+  }
+}
+
+// 等待规划或步骤完成，用户取消时立即中止；被中止的操作在浏览器关闭后失败。
+// 取消在没有可中止的操作时到达的，在下一次等待时中止
+function abortable<T>(run: AgentRun, promise: Promise<T>): Promise<T> {
+  if (run.cancelRequested) {
+    promise.catch(() => {});
+    return Promise.reject(new RunCancelledError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    run.abortStep = () => reject(new RunCancelledError());
+    promise.then(resolve, reject).finally(() => {
+      run.abortStep = undefined;
+    });
+  });
+}
+
+// 超出上限或用户取消时停止运行并释放浏览器会话
+async function stopRun(run: AgentRun, reason: StopReason) {
+  const message = describeStopReason(reason, run.limits);
+  run.status = "stopped";
+  run.stopReason = reason;
+  run.error = message;
+  emit(run, { type: "stopped", reason, message });
+  await closeStagehandInstance(run.sessionId).catch((error) => {
+    console.error(`Error closing session of run ${run.runId}:`, error);
+  });
+}
+
+// 为当前目标制定子目标清单
+async function planTask(run: AgentRun, goal: string, earlierGoals: string[], startingUrl?: string) {
+  run.plan = await abortable(
+    run,
+    createTaskPlan({ goal, earlierGoals, startingUrl, sessionID: run.sessionId })
+  );
+  emit(run, { type: "plan", plan: run.plan });
+}
+
+// 在新的浏览器会话中运行一个子任务，结束后关闭会话；子运行沿用协调运行的模型、
+// 上限和审批规则，事件转发给协调运行，消耗的token计入协调运行
+async function runChild(
+  parent: AgentRun,
+  stepNumber: number,
+  index: number,
+  goal: string
+): Promise<AgentRun> {
+  if (parent.cancelRequested) {
+    throw new RunCancelledError();
+  }
+
+  const { session } = await createSession();
+  const owner = getSessionOwner(parent.sessionId);
+  if (owner) {
+    registerSessionOwner(session.id, owner);
+  }
+  setSessionModels(session.id, parent.models);
+
+  const child: AgentRun = {
+    runId: `run-${Math.random().toString(36).substring(2, 15)}`,
+    parentRunId: parent.runId,
+    sessionId: session.id,
+    goal,
+    turns: [{ goal, startStepNumber: 1 }],
+    models: parent.models,
+    status: "running",
+    steps: [],
+    memory: [],
+    createdAt: Date.now(),
+    limits: parent.limits,
+    startedAt: Date.now(),
+    startStepCount: 0,
+    priorTokens: 0,
+    policy: parent.policy,
+    events: [],
+    listeners: new Set(),
+    saving: Promise.resolve(),
+    pauseRequested: false,
+    cancelRequested: false,
+    steering: [],
+    consecutiveFailures: 0,
+    children: [],
+  };
+  child.listeners.add((event) => {
+    emit(parent, { type: "child", stepNumber, index, runId: child.runId, event });
+  });
+  agentRuns.set(child.runId, child);
+  parent.children.push(child);
+
+  try {
+    await runLoop(child);
+  } finally {
+    parent.children = parent.children.filter((other) => other !== child);
+    addTokenUsage(parent.sessionId, getTokenUsage(child.sessionId));
+    await child.saving;
+    await endSession(child.sessionId).catch((error) => {
+      console.error(`Error closing session of child run ${child.runId}:`, error);
+    });
+  }
+  return child;
+}
+
+function summarizeChild(child: AgentRun): ChildRunSummary {
+  return {
+    runId: child.runId,
+    goal: child.goal,
+    status: child.status,
+    answer: child.answer,
+    error: child.error,
+    steps: child.steps.map((step) => ({
+      stepNumber: step.stepNumber,
+      text: step.text,
+      tool: step.tool,
+      error: step.error,
+    })),
+  };
+}
+
+// 把FAN_OUT步骤的子任务分给并行的子运行，全部结束后按子任务的顺序
+// 把它们的提取结果合并到协调运行的记忆中；没能运行的子任务记为出错，不影响其他子任务
+async function runChildren(run: AgentRun, step: StoredStep): Promise<ChildRunSummary[]> {
+  const subtasks = normalizeSubtasks(step.subtasks);
+  if (subtasks.length < 2) {
+    throw new StepError("unknown", "FAN_OUT步骤需要在subtasks中给出至少2个不同的子任务");
+  }
+  step.subtasks = subtasks;
+  emit(run, { type: "fan_out", stepNumber: step.stepNumber, subtasks });
+
+  const results = await mapWithConcurrency(subtasks, resolveMaxParallelChildren(), (goal, index) =>
+    runChild(run, step.stepNumber, index, goal)
+  );
+  if (run.cancelRequested) {
+    throw new RunCancelledError();
+  }
+  return results.map((result, index): ChildRunSummary => {
+    if (result.status === "fulfilled") {
+      const child = result.value;
+      mergeChildMemory(run.sessionId, step.stepNumber, index, child.goal, child.memory);
+      return summarizeChild(child);
+    }
+    console.error(`Child run ${index + 1} of run ${run.runId} failed:`, result.reason);
+    return {
+      goal: subtasks[index],
+      status: "error",
+      error: (result.reason as Error).message,
+      steps: [],
+    };
+  });
+}
+
+// 检查规划出的步骤是否陷入循环：第一次先警告模型，
+// 收到警告后规划的步骤仍在循环中则返回true
+function checkForLoop(run: AgentRun, step: StoredStep): boolean {
+  const loop = detectLoop(run.steps);
+  if (!loop) {
+    run.loopWarning = undefined;
+    run.loopWarnedAtStep = undefined;
+    return false;
+  }
+  if (run.loopWarnedAtStep === undefined) {
+    run.loopWarning = loop;
+    run.loopWarnedAtStep = step.stepNumber;
+    step.warning = loop;
+    emit(run, { type: "warning", message: loop, stepNumber: step.stepNumber });
+    return false;
+  }
+  // 警告后的下一步在规划时已看到警告，但其前一步的结果可能仍在循环中
+  return step.stepNumber > run.loopWarnedAtStep + 1;
+}
+
+// 风险步骤在执行前等待用户批准、修改或拒绝；返回是否执行该步骤。
+// 等待审批的时间不计入运行时间上限
+async function requestApproval(run: AgentRun, step: StoredStep): Promise<boolean> {
+  const reasons = evaluateStep(step, run.policy);
+  if (reasons.length === 0) {
+    return true;
+  }
+
+  step.approval = { status: "pending", reasons };
+  emit(run, { type: "approval_required", stepNumber: step.stepNumber, reasons });
+  const waitingSince = Date.now();
+  const decision = await new Promise<ApprovalDecision>((resolve) => {
+    run.resolveApproval = resolve;
+  });
+  run.resolveApproval = undefined;
+  run.startedAt += Date.now() - waitingSince;
+
+  switch (decision.action) {
+    case "approve":
+      step.approval = { reasons, status: "approved" };
+      break;
+    case "edit":
+      step.approval = {
+        reasons,
+        status: "edited",
+        originalInstruction: step.instruction,
+      };
+      step.instruction = decision.instruction;
+      break;
+    case "reject":
+      step.approval = { reasons, status: "rejected", comment: decision.comment };
+      run.rejection = describeRejection(step.stepNumber, step.approval);
+      break;
+  }
+  step.approval.decidedAt = Date.now();
+  emit(run, { type: "approval", step: { ...step }, approval: step.approval });
+
+  return step.approval.status !== "rejected";
+}
+
+// 暂停运行直到用户恢复或取消，返回用户的回复；暂停的时间不计入运行时间上限
+async function pauseForUser(
+  run: AgentRun,
+  pause: Omit<PauseState, "since">
+): Promise<string | undefined> {
+  run.status = "paused_for_user";
+  run.pause = { ...pause, since: Date.now() };
+  emit(run, { type: "paused", pause: run.pause });
+
+  const reply = await new Promise<string | undefined>((resolve) => {
+    run.resumeFromPause = resolve;
+  });
+  run.resumeFromPause = undefined;
+  run.startedAt += Date.now() - run.pause.since;
+  run.pause = undefined;
+
+  // 取消时保持暂停状态，由循环开头停止运行
+  if (!run.cancelRequested) {
+    run.status = "running";
+    run.userReply = reply;
+    emit(run, { type: "resumed", reply });
+  }
+  return reply;
+}
+
+async function runLoop(run: AgentRun) {
+  const { sessionId } = run;
+  const turn = run.turns[run.turns.length - 1];
+  const { goal } = turn;
+  const earlierGoals = run.turns.slice(0, -1).map((earlier) => earlier.goal);
+  // 运行期间（包括等待用户时）会话不会因空闲被回收
+  const releaseSession = retainSession(sessionId);
+
+  try {
+    if (run.steps.length === 0) {
+      // Handle first step with URL selection
+      const { url, reasoning } = await abortable(run, selectStartingUrl(goal, sessionId));
+      await planTask(run, goal, earlierGoals, url);
+      const firstStep: StoredStep = {
+        text: `导航至 ${url}`,
+        reasoning,
+        tool: "GOTO",
+        instruction: url,
+        stepNumber: 1,
+        plannedAt: Date.now(),
+      };
+      run.steps.push(firstStep);
+      emit(run, { type: "planned", step: { ...firstStep } });
+      if (await requestApproval(run, firstStep)) {
+        emit(run, { type: "executing", stepNumber: 1 });
+        try {
+          await abortable(run, runStagehand({
+            sessionID: sessionId,
+            method: "GOTO",
+            instruction: firstStep.instruction,
+          }));
+          await recordPageState(run, firstStep, "after");
+          emit(run, { type: "result", stepNumber: 1 });
+          recordStepSuccess(run, firstStep);
+        } catch (error) {
+          if (error instanceof RunCancelledError) {
+            throw error;
+          }
+          await recordFailedPageState(run, firstStep, error);
+          recordStepFailure(run, firstStep, error);
+        }
+      }
+    } else {
+      if (run.lastUrl && (await getActivePage(sessionId)).url() !== run.lastUrl) {
+        // 恢复运行或在新的浏览器中继续对话时，先回到之前所在的页面
+        await abortable(run, runStagehand({
+          sessionID: sessionId,
+          method: "GOTO",
+          instruction: run.lastUrl,
+        }));
+      }
+      // 后续请求还没有步骤时，先为新的目标制定计划
+      if (run.steps.length < turn.startStepNumber) {
+        await planTask(run, goal, earlierGoals, run.lastUrl);
+      }
+    }
+
+    while (true) {
+      if (run.pauseRequested && !run.cancelRequested) {
+        run.pauseRequested = false;
+        await pauseForUser(run, { requestedBy: "user", message: "运行已暂停" });
+      }
+      if (run.cancelRequested) {
+        await stopRun(run, "cancelled");
+        break;
+      }
+
+      const stepCount = run.steps.length - run.startStepCount;
+      const stopReason = checkBudget(
+        {
+          steps: stepCount,
+          startedAt: run.startedAt,
+          tokens: getTokenUsage(sessionId),
+        },
+        run.limits
+      );
+      if (stopReason) {
+        await stopRun(run, stopReason);
+        break;
+      }
+
+      const lastStep = run.steps[run.steps.length - 1];
+      const unmetWait =
+        (lastStep?.tool === "WAIT" || lastStep?.tool === "WAIT_FOR_SELECTOR") &&
+        (lastStep.result as WaitResult | undefined)?.met === false
+          ? describeUnmetWait(lastStep.stepNumber, lastStep.result as WaitResult)
+          : undefined;
+      const notices = [
+        describeRemainingSteps(stepCount, run.limits),
+        unmetWait,
+        lastStep?.verdict && describeVerdict(lastStep.stepNumber, lastStep.verdict),
+        lastStep?.tool === "FAN_OUT" &&
+          Array.isArray(lastStep.result) &&
+          describeChildRuns(lastStep.stepNumber, lastStep.result as ChildRunSummary[]),
+        run.loopWarning && describeLoopWarning(run.loopWarning),
+        run.rejection,
+        run.userReply && `用户回复: ${run.userReply}`,
+        ...run.steering.map((message) => `用户补充指令: ${message}`),
+      ].filter((notice): notice is string => !!notice);
+      const steering = run.steering;
+      run.rejection = undefined;
+      run.userReply = undefined;
+      run.steering = [];
+
+      const { result } = await abortable(run, sendPrompt({
+        goal,
+        earlierGoals,
+        plan: run.plan,
+        sessionID: sessionId,
+        previousSteps: run.steps,
+        previousExtraction: getExtractionAfterStep(sessionId, lastStep),
+        previousError: run.lastError,
+        notices,
+        // 子运行不能再拆分子任务
+        allowFanOut: !run.parentRunId,
+      }));
+      const step: StoredStep = {
+        ...result,
+        stepNumber: run.steps.length + 1,
+        ...(steering.length > 0 ? { steering } : {}),
+        plannedAt: Date.now(),
+      };
+      run.steps.push(step);
+      emit(run, { type: "planned", step: { ...step } });
+
+      const plan = run.plan && applyPlanUpdate(run.plan, step.planUpdate);
+      if (plan) {
+        run.plan = plan;
+        emit(run, { type: "plan", plan });
+      }
+
+      if (step.tool !== "CLOSE" && checkForLoop(run, step)) {
+        await stopRun(run, "loop");
+        break;
+      }
+
+      if (step.tool === "CLOSE") {
+        const answer = await abortable(run, synthesizeAnswer({
+          goal,
+          earlierGoals,
+          sessionID: sessionId,
+          previousSteps: run.steps,
+        }));
+        run.status = "done";
+        run.answer = answer;
+        turn.answer = answer;
+        // 浏览器会话保留给后续请求
+        emit(run, { type: "done", answer });
+        break;
+      }
+
+      if (!(await requestApproval(run, step))) {
+        continue;
+      }
+
+      emit(run, { type: "executing", stepNumber: step.stepNumber });
+
+      // USER_INPUT步骤暂停运行，直到用户恢复运行，用户的回复会交给规划模型
+      if (step.tool === "USER_INPUT") {
+        const reply = await pauseForUser(run, {
+          requestedBy: "agent",
+          message: step.instruction || "请处理验证码或登录信息",
+          stepNumber: step.stepNumber,
+        });
+        if (!run.cancelRequested) {
+          step.result = { reply };
+          emit(run, {
+            type: "result",
+            stepNumber: step.stepNumber,
+            result: step.result,
+          });
+        }
+        continue;
+      }
+
+      // FAN_OUT步骤等待所有子运行结束，协调运行的浏览器停留在当前页面
+      if (step.tool === "FAN_OUT") {
+        try {
+          const children = await abortable(run, runChildren(run, step));
+          step.result = children;
+          run.memory = [...getMemory(sessionId)];
+          emit(run, { type: "result", stepNumber: step.stepNumber, result: children });
+          recordStepSuccess(run, step);
+        } catch (error) {
+          if (error instanceof RunCancelledError) {
+            throw error;
+          }
+          recordStepFailure(run, step, error);
+        }
+        continue;
+      }
+
+      const before = await captureBeforeVerification(
+        run,
+        step,
+        await recordPageState(run, step, "before")
+      );
+      try {
+        // 记录执行前的页面时用户可能已经取消，此时不再执行步骤
+        if (run.cancelRequested) {
+          throw new RunCancelledError();
+        }
+        const output = await abortable(run, executeStep({
+          sessionID: sessionId,
+          step,
+          stepNumber: step.stepNumber,
+        }));
+        step.result = output;
+        run.memory = [...getMemory(sessionId)];
+        const screenshot = await recordPageState(run, step, "after");
+        emit(run, { type: "result", stepNumber: step.stepNumber, result: output });
+        if (before) {
+          await verifyExecutedStep(run, step, before, screenshot);
+        }
+        recordStepSuccess(run, step);
+      } catch (error) {
+        if (error instanceof RunCancelledError) {
+          throw error;
+        }
+        await recordFailedPageState(run, step, error);
+        recordStepFailure(run, step, error);
+      }
+    }
+  } catch (error) {
+    if (error instanceof RunCancelledError) {
+      await stopRun(run, "cancelled");
+      return;
+    }
+    console.error(`Agent run ${run.runId} failed:`, error);
+    run.status = "error";
+    run.error = (error as Error).message;
+    emit(run, {
+      type: "error",
+      message: (error as Error).message,
+      stepNumber: run.steps[run.steps.length - 1]?.stepNumber,
+    });
+  } finally {
+    releaseSession();
+    forgetFinishedRun(run);
+  }
+}
+
+// 运行结束并写入运行记录后，过一段时间把它和它的事件移出内存；
+// 期间有后续请求或恢复时，映射中已是新的运行，不会被移除
+function forgetFinishedRun(run: AgentRun) {
+  void run.saving.then(() => {
+    const timer = setTimeout(() => {
+      if (agentRuns.get(run.runId) === run) {
+        agentRuns.delete(run.runId);
+      }
+    }, FINISHED_RUN_RETENTION_MS);
+    // 不阻止进程退出
+    timer.unref?.();
+  });
+}
+
+// 在后台进行运行循环，客户端不等待循环结束
+function startLoop(run: AgentRun) {
+  void runLoop(run).catch((error) => {
+    console.error(`Agent run ${run.runId} ended unexpectedly:`, error);
+  });
+}
+
+// 在服务端启动一次运行，运行不依赖于客户端连接
+export function startRun({
+  goal,
+  sessionId,
+  models = {},
+  limits = {},
+  allowedDomains,
+}: {
+  goal: string;
+  sessionId: string;
+  models?: ModelOverrides;
+  limits?: Partial<RunLimits>;
+  allowedDomains?: string[];
+}): AgentRun {
+  setSessionModels(sessionId, models);
+
+  const run: AgentRun = {
+    runId: `run-${Math.random().toString(36).substring(2, 15)}`,
+    sessionId,
+    goal,
+    turns: [{ goal, startStepNumber: 1 }],
+    models,
+    status: "running",
+    steps: [],
+    memory: [],
+    createdAt: Date.now(),
+    limits: resolveRunLimits(limits),
+    startedAt: Date.now(),
+    startStepCount: 0,
+    priorTokens: 0,
+    policy: resolveApprovalPolicy(allowedDomains),
+    events: [],
+    listeners: new Set(),
+    saving: Promise.resolve(),
+    pauseRequested: false,
+    cancelRequested: false,
+    steering: [],
+    consecutiveFailures: 0,
+    children: [],
+  };
+  agentRuns.set(run.runId, run);
+
+  startLoop(run);
+
+  return run;
+}
+
+// 在新的会话中恢复一个已保存的运行，恢复其步骤和记忆后继续循环
+export async function resumeRun({
+  runId,
+  sessionId,
+  models,
+  limits,
+}: {
+  runId: string;
+  sessionId: string;
+  models?: ModelOverrides;
+  limits?: Partial<RunLimits>;
+}): Promise<AgentRun | null> {
+  // 运行仍在进行时抛出RunConflictError，调用者为恢复创建的会话不会被占用
+  const previous = agentRuns.get(runId);
+  const release = claimRun(runId, sessionId);
+  try {
+    // 等待之前的状态写入后再读取运行记录
+    await previous?.saving;
+
+    const stored = await loadRun(runId);
+    if (!stored) {
+      return null;
+    }
+
+    for (const entry of stored.memory) {
+      addMemoryEntry(sessionId, entry);
+    }
+
+    // 恢复时默认沿用原运行的模型配置
+    const runModels = models ?? stored.models ?? {};
+    setSessionModels(sessionId, runModels);
+
+    const run: AgentRun = {
+      runId: stored.runId,
+      parentRunId: stored.parentRunId,
+      sessionId,
+      goal: stored.goal,
+      turns: restoreTurns(stored),
+      plan: stored.plan,
+      models: runModels,
+      status: "running",
+      steps: stored.steps,
+      memory: stored.memory,
+      lastUrl: stored.lastUrl,
+      createdAt: stored.createdAt,
+      limits: resolveRunLimits({ ...stored.limits, ...limits }),
+      startedAt: Date.now(),
+      startStepCount: stored.steps.length,
+      priorTokens: stored.tokensUsed ?? 0,
+      policy: resolveApprovalPolicy(stored.allowedDomains),
+      events: [],
+      listeners: new Set(),
+      saving: Promise.resolve(),
+      pauseRequested: false,
+      cancelRequested: false,
+      steering: [],
+      consecutiveFailures: 0,
+      children: [],
+    };
+    agentRuns.set(run.runId, run);
+
+    startLoop(run);
+
+    return run;
+  } finally {
+    release();
+  }
+}
+
+// 旧的运行记录没有保存对话，整个运行视为一轮
+function restoreTurns(stored: StoredRun): RunTurn[] {
+  return (
+    stored.turns ?? [{ goal: stored.goal, startStepNumber: 1, answer: stored.answer }]
+  );
+}
+
+// 在同一个浏览器会话中继续对话：保留步骤、记忆和页面，以新的目标继续循环；
+// 会话已关闭时可以传入新的会话，记忆和页面会从运行记录中恢复
+export async function continueRun({
+  runId,
+  goal,
+  sessionId,
+  limits,
+}: {
+  runId: string;
+  goal: string;
+  sessionId?: string;
+  limits?: Partial<RunLimits>;
+}): Promise<AgentRun | null> {
+  const previous = agentRuns.get(runId);
+  const claimedSessionId = sessionId ?? previous?.sessionId;
+  const release = claimRun(runId, claimedSessionId);
+  try {
+    // 等待上一轮的状态写入后再读取运行记录
+    await previous?.saving;
+
+    const stored = await loadRun(runId);
+    if (!stored) {
+      return null;
+    }
+
+    const runSessionId = sessionId ?? previous?.sessionId ?? stored.sessionId;
+    // 沿用运行记录中的会话时，读取记录后再检查会话是否空闲
+    if (runSessionId !== claimedSessionId && isSessionRunActive(runSessionId)) {
+      throw new RunConflictError("会话中已有进行中的运行，请等待它完成或先取消");
+    }
+    // 会话被关闭或回收后记忆已清空，从运行记录中恢复
+    if (getMemory(runSessionId).length === 0) {
+      for (const entry of stored.memory) {
+        addMemoryEntry(runSessionId, entry);
+      }
+    }
+    const runModels = stored.models ?? {};
+    setSessionModels(runSessionId, runModels);
+    // 之前消耗的token已计入运行记录，会话重新计数，上限按每轮分别计算
+    clearTokenUsage(runSessionId);
+
+    const run: AgentRun = {
+      runId: stored.runId,
+      parentRunId: stored.parentRunId,
+      sessionId: runSessionId,
+      goal: stored.goal,
+      turns: [...restoreTurns(stored), { goal, startStepNumber: stored.steps.length + 1 }],
+      models: runModels,
+      status: "running",
+      steps: stored.steps,
+      memory: stored.memory,
+      lastUrl: stored.lastUrl,
+      createdAt: stored.createdAt,
+      limits: resolveRunLimits({ ...stored.limits, ...limits }),
+      startedAt: Date.now(),
+      startStepCount: stored.steps.length,
+      priorTokens: stored.tokensUsed ?? 0,
+      policy: resolveApprovalPolicy(stored.allowedDomains),
+      events: [],
+      listeners: new Set(),
+      saving: Promise.resolve(),
+      pauseRequested: false,
+      cancelRequested: false,
+      steering: [],
+      consecutiveFailures: 0,
+      children: [],
+    };
+    agentRuns.set(run.runId, run);
+
+    startLoop(run);
+
+    return run;
+  } finally {
+    release();
+  }
+}
+
+// 请求在当前步骤结束后暂停；运行不在进行中时返回false
+export function requestPause(run: AgentRun): boolean {
+  if (run.status !== "running" || run.cancelRequested) {
+    return false;
+  }
+  run.pauseRequested = true;
+  return true;
+}
+
+// 恢复暂停的运行，回复会在下一次规划时交给模型；运行未暂停时返回false
+export function resumePausedRun(run: AgentRun, reply?: string): boolean {
+  if (!run.resumeFromPause) {
+    return false;
+  }
+  run.resumeFromPause(reply);
+  return true;
+}
+
+// 取消运行：中止正在进行的规划或步骤并立即停止，浏览器会话随之释放
+export function cancelRun(run: AgentRun): boolean {
+  if (!isActive(run) || run.cancelRequested) {
+    return false;
+  }
+  run.cancelRequested = true;
+  for (const child of run.children) {
+    cancelRun(child);
+  }
+  run.resumeFromPause?.();
+  run.resolveApproval?.({ action: "reject", comment: "运行已取消" });
+  run.abortStep?.();
+  return true;
+}
+
+// 在运行中补充一条指令，下一次规划时交给模型；运行不在进行中时返回false
+export function steerRun(run: AgentRun, message: string): boolean {
+  if (!isActive(run) || run.cancelRequested) {
+    return false;
+  }
+  run.steering.push(message);
+  emit(run, { type: "steered", message });
+  return true;
+}
+
+// 提交用户对等待审批步骤的决定；没有等待审批的步骤时返回false
+export function decideApproval(run: AgentRun, decision: ApprovalDecision): boolean {
+  if (!run.resolveApproval) {
+    return false;
+  }
+  run.resolveApproval(decision);
+  return true;
+}
+
+export function getRun(runId: string): AgentRun | undefined {
+  return agentRuns.get(runId);
+}
+
+// 运行是否正在当前服务进程中进行，正在恢复或继续的运行也算在内
+export function isRunActive(runId: string): boolean {
+  const run = agentRuns.get(runId);
+  return startingRuns.has(runId) || (!!run && isActive(run));
+}
+
+// 会话中是否有暂停等待用户的运行，只有这时才允许用户直接操作浏览器
+export function isSessionPausedForUser(sessionId: string): boolean {
+  return Array.from(agentRuns.values()).some(
+    (run) => run.sessionId === sessionId && run.status === "paused_for_user"
+  );
+}
+
+// 会话中是否有正在进行或等待用户的运行，同一个浏览器同时只能有一个运行
+export function isSessionRunActive(sessionId: string): boolean {
+  return (
+    startingSessions.has(sessionId) ||
+    Array.from(agentRuns.values()).some(
+      (run) => run.sessionId === sessionId && isActive(run)
+    )
+  );
+}
+
+function isActive(run: AgentRun): boolean {
+  return run.status === "running" || run.status === "paused_for_user";
+}
+
+// 订阅运行事件，先回放已发生的事件；返回取消订阅的函数
+export function subscribeToRun(
+  run: AgentRun,
+  listener: (event: RunEvent) => void
+): () => void {
+  for (const event of run.events) {
+    listener(event);
+  }
+  run.listeners.add(listener);
+  return () => {
+    run.listeners.delete(listener);
+  };
+}
+
+export const runStreamHeaders = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+// 将运行事件编码为SSE流，运行结束或出错后关闭流
+export function createRunEventStream(run: AgentRun): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  // 流在第一个结束事件后关闭，之后的事件（如停止后的出错）不再发送
+  let closed = false;
+
+  return new ReadableStream({
+    start(controller) {
+      const send = (event: RunEvent) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+        );
+        if (
+          event.type === "done" ||
+          event.type === "error" ||
+          event.type === "stopped"
+        ) {
+          closed = true;
+          unsubscribe?.();
+          controller.close();
+        }
+      };
+      const isFinished = !isActive(run);
+      unsubscribe = subscribeToRun(run, send);
+      if (isFinished) {
+        unsubscribe();
+      }
+    },
+    cancel() {
+      // 客户端断开连接时只取消订阅，运行继续在服务端进行
+      closed = true;
+      unsubscribe?.();
+    },
+  });
+}
@@ -0,0 +1,160 @@
+import { Step } from "./agentCore";
+
+// 需要用户确认的风险类别
+export type ApprovalReason =
+  | "form_submit"
+  | "purchase"
+  | "login"
+  | "download"
+  | "external_domain";
+
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; instruction: string }
+  | { action: "reject"; comment?: string };
+
+// 记录在运行日志中的审批结果
+export type ApprovalRecord = {
+  status: "pending" | "approved" | "edited" | "rejected";
+  reasons: ApprovalReason[];
+  // 被用户修改前的指令
+  originalInstruction?: string;
+  comment?: string;
+  decidedAt?: number;
+};
+
+export type ApprovalPolicy = {
+  rules: ApprovalReason[];
+  // 为空时不限制导航的域名
+  allowedDomains: string[];
+};
+
+const ALL_RULES: ApprovalReason[] = [
+  "form_submit",
+  "purchase",
+  "login",
+  "download",
+  "external_domain",
+];
+
+// 按指令文字识别风险操作，只检查会改变页面状态的工具
+const RULE_PATTERNS: Record<Exclude<ApprovalReason, "external_domain">, RegExp> = {
+  form_submit: /\bsubmit\b|\bsend\b|\bconfirm\b|\b(press|hit) (the )?(enter|return)\b|提交|发送|发布|确认|回车/i,
+  purchase: /\bbuy\b|\bpurchase\b|\bcheckout\b|\bcheck out\b|\bpay\b|\bplace (an |the )?order\b|购买|下单|支付|付款|结账/i,
+  login: /\blog ?in\b|\bsign ?in\b|\bsign ?up\b|\bpassword\b|登录|登陆|注册|密码/i,
+  download: /\bdownload\b|下载/i,
+};
+
+const ACTION_TOOLS: Step["tool"][] = ["ACT", "CLICK", "TYPE", "PRESS_KEY", "SELECT_OPTION"];
+
+// 在表单中按下会提交表单的按键，支持Control+Enter这样的组合键
+const SUBMIT_KEY_PATTERN = /(^|\+)(enter|return|numpadenter)$/i;
+
+const approvalReasonLabels: Record<ApprovalReason, string> = {
+  form_submit: "提交表单",
+  purchase: "购买或支付",
+  login: "登录或注册",
+  download: "下载文件",
+  external_domain: "访问不在允许列表中的域名",
+};
+
+function readList(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  return value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// 合并环境变量中的默认策略和请求中指定的允许域名
+export function resolveApprovalPolicy(allowedDomains?: string[]): ApprovalPolicy {
+  const rules = readList("AGENT_APPROVAL_RULES");
+  return {
+    rules: rules
+      ? ALL_RULES.filter((rule) => rules.includes(rule))
+      : ALL_RULES,
+    allowedDomains: (allowedDomains ?? readList("AGENT_ALLOWED_DOMAINS") ?? []).map(
+      (domain) => domain.toLowerCase()
+    ),
+  };
+}
+
+export function isValidAllowedDomains(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((domain) => typeof domain === "string" && domain.length > 0)
+  );
+}
+
+// 域名本身或其子域名在允许列表中
+function isDomainAllowed(url: string, allowedDomains: string[]): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return allowedDomains.some(
+    (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+  );
+}
+
+// 检查规划出的步骤，返回需要用户确认的原因；无风险时返回空数组
+export function evaluateStep(step: Step, policy: ApprovalPolicy): ApprovalReason[] {
+  const reasons: ApprovalReason[] = [];
+
+  if (ACTION_TOOLS.includes(step.tool)) {
+    for (const [reason, pattern] of Object.entries(RULE_PATTERNS)) {
+      if (
+        policy.rules.includes(reason as ApprovalReason) &&
+        pattern.test(`${step.instruction} ${step.value ?? ""}`)
+      ) {
+        reasons.push(reason as ApprovalReason);
+      }
+    }
+  }
+
+  if (
+    step.tool === "PRESS_KEY" &&
+    policy.rules.includes("form_submit") &&
+    !reasons.includes("form_submit") &&
+    SUBMIT_KEY_PATTERN.test(step.value?.trim() ?? "")
+  ) {
+    reasons.push("form_submit");
+  }
+
+  if (
+    (step.tool === "GOTO" || (step.tool === "NEW_TAB" && step.instruction.trim())) &&
+    policy.rules.includes("external_domain") &&
+    policy.allowedDomains.length > 0 &&
+    !isDomainAllowed(step.instruction, policy.allowedDomains)
+  ) {
+    reasons.push("external_domain");
+  }
+
+  return reasons;
+}
+
+export function isValidApprovalDecision(value: unknown): value is ApprovalDecision {
+  if (!value || typeof value !== "object") return false;
+  const decision = value as Record<string, unknown>;
+  switch (decision.action) {
+    case "approve":
+      return true;
+    case "edit":
+      return typeof decision.instruction === "string" && decision.instruction.length > 0;
+    case "reject":
+      return decision.comment === undefined || typeof decision.comment === "string";
+    default:
+      return false;
+  }
+}
+
+// 用户拒绝步骤后给规划模型的提醒
+export function describeRejection(stepNumber: number, record: ApprovalRecord): string {
+  const reasons = record.reasons.map((reason) => approvalReasonLabels[reason]).join("、");
+  return `用户拒绝执行步骤 ${stepNumber}（${reasons}）${
+    record.comment ? `，说明: ${record.comment}` : ""
+  }。不要再尝试该操作，请换一种方法完成任务，或使用CLOSE结束任务。`;
+}
@@ -1,10 +1,17 @@
 import { NextResponse } from 'next/server';
-import { closeAllStagehandInstances } from '../stagehandManager';
+import { readClientId } from '../clientId';
+import { closeOwnedStagehandInstances } from '../stagehandManager';
 
-export async function POST() {
+// 只关闭调用者自己创建的会话
+export async function POST(request: Request) {
   try {
-    await closeAllStagehandInstances();
-    return NextResponse.json({ success: true, message: '所有Stagehand实例已关闭' });
+    const clientId = readClientId(request);
+    const closed = clientId ? await closeOwnedStagehandInstances(clientId) : [];
+    return NextResponse.json({
+      success: true,
+      message: `已关闭 ${closed.length} 个Stagehand实例`,
+      sessionIds: closed,
+    });
   } catch (error) {
     console.error('清理Stagehand实例时出错:', error);
     return NextResponse.json(
@@ -12,4 +19,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,19 @@
+import { randomUUID } from "crypto";
+
+// 标识浏览器客户端的cookie，用于区分不同用户创建的会话
+export const CLIENT_ID_COOKIE = "manus_client_id";
+
+export function readClientId(request: Request): string | undefined {
+  const cookies = request.headers.get("cookie") ?? "";
+  for (const cookie of cookies.split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === CLIENT_ID_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return undefined;
+}
+
+export function createClientId(): string {
+  return randomUUID();
+}
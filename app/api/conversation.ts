@@ -0,0 +1,48 @@
+// 对话中的一条用户消息，每条消息是一个目标
+export type ConversationMessage = {
+  role: "user";
+  content: string;
+};
+
+// 运行中的一轮对话：用户的目标、这一轮第一个步骤的编号和最终答案
+export type RunTurn = {
+  goal: string;
+  startStepNumber: number;
+  answer?: unknown;
+};
+
+export function isValidConversation(value: unknown): value is ConversationMessage[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (message) =>
+        !!message &&
+        typeof message === "object" &&
+        message.role === "user" &&
+        typeof message.content === "string" &&
+        message.content.trim().length > 0
+    )
+  );
+}
+
+// 最后一条消息是当前目标，之前的消息是已经完成的目标
+export function splitConversation(messages: ConversationMessage[]): {
+  goal: string;
+  earlierGoals: string[];
+} {
+  return {
+    goal: messages[messages.length - 1].content.trim(),
+    earlierGoals: messages.slice(0, -1).map((message) => message.content.trim()),
+  };
+}
+
+// 后续请求的规划和答案提示中说明之前的目标，之前的步骤和收集到的信息仍然可用
+export function describeEarlierGoals(earlierGoals: string[]): string {
+  if (earlierGoals.length === 0) return "";
+  return `
+这是同一个浏览器会话中的后续请求。用户之前的请求（已经完成）:
+${earlierGoals.map((goal, i) => `${i + 1}. ${goal}`).join("\n")}
+之前打开的页面、执行过的步骤和收集到的信息仍然可用，可以直接引用，不需要重复获取。
+`;
+}
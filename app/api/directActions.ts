@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import { Page } from "@browserbasehq/stagehand";
+import { getPageDigest } from "./pageDigest";
+import { StepError } from "./stepErrors";
+import { resolveWaitTimeout, waitForCondition, WaitResult } from "./waitConditions";
+
+// 直接映射到Playwright调用的工具，不经过LLM，结果可重复
+export const DIRECT_ACTION_TOOLS = [
+  "CLICK",
+  "TYPE",
+  "PRESS_KEY",
+  "SCROLL",
+  "SELECT_OPTION",
+  "HOVER",
+  "WAIT_FOR_SELECTOR",
+] as const;
+
+export type DirectActionTool = (typeof DIRECT_ACTION_TOOLS)[number];
+
+// 单个操作等待元素的时间（毫秒）
+const ACTION_TIMEOUT = 10000;
+
+// 不指定距离时每次滚动的像素
+const DEFAULT_SCROLL_DISTANCE = 600;
+
+export function isDirectActionTool(tool: string): tool is DirectActionTool {
+  return (DIRECT_ACTION_TOOLS as readonly string[]).includes(tool);
+}
+
+// 解析目标元素：以 [序号] 开头时指代页面摘要中的元素，否则视为Playwright选择器
+async function resolveTarget(page: Page, sessionID: string, target: string): Promise<string> {
+  const trimmed = target.trim();
+  const reference = trimmed.match(/^\[(\d+)\]/);
+  if (!reference) {
+    return trimmed;
+  }
+
+  const index = Number(reference[1]);
+  const digest = getPageDigest(sessionID);
+  const element = digest?.elements.find((candidate) => candidate.index === index);
+  if (!digest || digest.url !== page.url() || !element?.backendNodeId) {
+    throw new StepError(
+      "element_not_found",
+      `Element [${index}] is not in the digest of the current page`
+    );
+  }
+
+  // 通过CDP给元素加上本次操作独有的标记属性，再用属性选择器定位；
+  // 之前操作留下的标记不会被误匹配
+  const token = randomUUID();
+  const cdpSession = await page.context().newCDPSession(page);
+  try {
+    const { object } = await cdpSession.send("DOM.resolveNode", {
+      backendNodeId: element.backendNodeId,
+    });
+    await cdpSession.send("Runtime.callFunctionOn", {
+      objectId: object.objectId,
+      functionDeclaration: "function (token) { this.setAttribute('data-agent-target', token); }",
+      arguments: [{ value: token }],
+    });
+  } catch {
+    throw new StepError("element_not_found", `Element [${index}] is no longer on the page`);
+  } finally {
+    await cdpSession.detach().catch(() => {});
+  }
+  return `[data-agent-target="${token}"]`;
+}
+
+async function locate(page: Page, sessionID: string, target: string) {
+  if (!target.trim()) {
+    throw new StepError("element_not_found", "A selector or element index is required");
+  }
+  const selector = await resolveTarget(page, sessionID, target);
+  const locator = page.locator(selector).first();
+  // 找不到元素时立即失败，而不是等到超时后再重试
+  if ((await locator.count()) === 0) {
+    throw new StepError("element_not_found", `No element matches ${target}`);
+  }
+  return locator;
+}
+
+// 执行确定性的页面操作；instruction为目标元素，value为输入的文本、按键、选项、滚动距离或等待时间
+export async function runDirectAction({
+  page,
+  sessionID,
+  tool,
+  instruction,
+  value,
+}: {
+  page: Page;
+  sessionID: string;
+  tool: DirectActionTool;
+  instruction: string;
+  value?: string;
+}): Promise<WaitResult | undefined> {
+  const options = { timeout: ACTION_TIMEOUT };
+
+  switch (tool) {
+    case "CLICK":
+      await (await locate(page, sessionID, instruction)).click(options);
+      break;
+
+    case "TYPE":
+      await (await locate(page, sessionID, instruction)).fill(value ?? "", options);
+      break;
+
+    case "PRESS_KEY":
+      if (!value) {
+        throw new StepError("unknown", "PRESS_KEY needs a key in value, e.g. Enter");
+      }
+      if (instruction.trim()) {
+        await (await locate(page, sessionID, instruction)).press(value, options);
+      } else {
+        await page.keyboard.press(value);
+      }
+      break;
+
+    case "SCROLL": {
+      if (instruction.trim()) {
+        await (await locate(page, sessionID, instruction)).scrollIntoViewIfNeeded(options);
+        break;
+      }
+      const direction = value?.trim().toLowerCase() || "down";
+      const distance =
+        direction === "down"
+          ? DEFAULT_SCROLL_DISTANCE
+          : direction === "up"
+            ? -DEFAULT_SCROLL_DISTANCE
+            : Number(direction);
+      if (!Number.isFinite(distance)) {
+        throw new StepError("unknown", `Invalid scroll distance: ${value}`);
+      }
+      await page.mouse.wheel(0, distance);
+      break;
+    }
+
+    case "SELECT_OPTION":
+      await (await locate(page, sessionID, instruction)).selectOption(value ?? "", options);
+      break;
+
+    case "HOVER":
+      await (await locate(page, sessionID, instruction)).hover(options);
+      break;
+
+    case "WAIT_FOR_SELECTOR": {
+      if (!instruction.trim()) {
+        throw new StepError("element_not_found", "A selector is required");
+      }
+      // 和WAIT一样，超时不算失败，结果中met为false
+      const result = await waitForCondition(
+        page,
+        { kind: "selector", selector: await resolveTarget(page, sessionID, instruction) },
+        resolveWaitTimeout(value)
+      );
+      return { ...result, condition: `selector:${instruction.trim()}` };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { StepError } from "./stepErrors";
+
+// 规划模型可以使用的JSON Schema子集
+type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  nullable?: boolean;
+};
+
+// 转换后的提取schema；Stagehand只接受对象schema，顶层不是对象时包装在value字段中
+export type ExtractSchema = {
+  schema: z.AnyZodObject;
+  wrapped: boolean;
+};
+
+// 嵌套层数上限，防止模型生成的schema过深
+const MAX_DEPTH = 6;
+
+function toZod(schema: JsonSchema, path: string, depth: number): z.ZodTypeAny {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error(`${path} is not a schema object`);
+  }
+  if (depth > MAX_DEPTH) {
+    throw new Error(`${path} is nested more than ${MAX_DEPTH} levels deep`);
+  }
+
+  let result: z.ZodTypeAny;
+  if (schema.enum) {
+    // 枚举值保留原来的类型，数字枚举只接受数字
+    const [first, second, ...rest] = schema.enum.map((value) => z.literal(value));
+    if (!first) {
+      throw new Error(`${path}.enum is empty`);
+    }
+    result = second ? z.union([first, second, ...rest]) : first;
+  } else {
+    switch (schema.type) {
+      case "object": {
+        // 和JSON Schema一样，没有给出required时所有字段都是可选的
+        const required = schema.required ?? [];
+        result = z.object(
+          Object.fromEntries(
+            Object.entries(schema.properties ?? {}).map(([key, property]) => {
+              const field = toZod(property, `${path}.${key}`, depth + 1);
+              return [key, required.includes(key) ? field : field.optional()];
+            })
+          )
+        );
+        break;
+      }
+      case "array":
+        if (!schema.items) {
+          throw new Error(`${path} is an array without items`);
+        }
+        result = z.array(toZod(schema.items, `${path}[]`, depth + 1));
+        break;
+      case "string":
+        result = z.string();
+        break;
+      case "number":
+        result = z.number();
+        break;
+      case "integer":
+        result = z.number().int();
+        break;
+      case "boolean":
+        result = z.boolean();
+        break;
+      default:
+        throw new Error(`${path} has unsupported type "${schema.type}"`);
+    }
+  }
+
+  if (schema.nullable) {
+    result = result.nullable();
+  }
+  return schema.description ? result.describe(schema.description) : result;
+}
+
+// 将规划模型给出的JSON Schema文本转换为zod schema，无效时抛出StepError交给模型修正
+export function parseExtractSchema(text: string): ExtractSchema {
+  try {
+    const schema = toZod(JSON.parse(text), "schema", 0);
+    if (schema instanceof z.ZodObject) {
+      return { schema, wrapped: false };
+    }
+    return { schema: z.object({ value: schema }), wrapped: true };
+  } catch (error) {
+    throw new StepError(
+      "unknown",
+      `Invalid extraction schema: ${(error as Error).message}`
+    );
+  }
+}
+
+// 校验Stagehand返回的提取结果，返回符合schema的数据
+export function validateExtraction(
+  extractSchema: ExtractSchema,
+  extraction: unknown
+): unknown {
+  const parsed = extractSchema.schema.safeParse(extraction);
+  if (!parsed.success) {
+    throw new StepError(
+      "unknown",
+      `Extraction does not match the schema: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "value"}: ${issue.message}`)
+        .join("; ")}`
+    );
+  }
+  return extractSchema.wrapped ? parsed.data.value : parsed.data;
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { addMemoryEntry, MemoryEntry } from "./agentMemory";
+import { FinalAnswer } from "./agentRunner";
+import { StepFailure } from "./stepErrors";
+
+// 一次FAN_OUT最多拆分的子任务数
+export const MAX_SUBTASKS = 4;
+
+// 未设置AGENT_MAX_PARALLEL_CHILDREN时同时运行的子任务数
+const DEFAULT_MAX_PARALLEL_CHILDREN = 3;
+
+export const subtasksSchema = z
+  .array(z.string())
+  .max(MAX_SUBTASKS)
+  .optional()
+  .describe(`仅用于FAN_OUT: 可以互相独立完成的子任务目标，2到${MAX_SUBTASKS}个`);
+
+// 子运行结束后保存在FAN_OUT步骤结果中的摘要
+// 子运行没能启动时没有runId
+export type ChildRunSummary = {
+  runId?: string;
+  goal: string;
+  status: "running" | "paused_for_user" | "done" | "error" | "stopped";
+  answer?: FinalAnswer;
+  error?: string;
+  steps: { stepNumber: number; text: string; tool: string; error?: StepFailure }[];
+};
+
+export function resolveMaxParallelChildren(): number {
+  const value = Number(process.env.AGENT_MAX_PARALLEL_CHILDREN);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_PARALLEL_CHILDREN;
+}
+
+// 整理规划模型给出的子任务，去掉空白和重复的目标
+export function normalizeSubtasks(subtasks: string[] = []): string[] {
+  return [...new Set(subtasks.map((subtask) => subtask.trim()).filter(Boolean))].slice(
+    0,
+    MAX_SUBTASKS
+  );
+}
+
+// 最多同时处理limit个任务，和Promise.allSettled一样按输入顺序返回每个任务的结果，
+// 一个任务失败不影响其他任务
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index).then(
+        (value) => ({ status: "fulfilled" as const, value }),
+        (reason) => ({ status: "rejected" as const, reason })
+      );
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+}
+
+// 子运行的提取和观察结果记入协调运行的记忆，步骤编号指向FAN_OUT步骤，
+// 指令前注明来自哪个子任务，最终答案可以引用它们
+export function mergeChildMemory(
+  sessionID: string,
+  stepNumber: number,
+  index: number,
+  goal: string,
+  entries: MemoryEntry[]
+) {
+  for (const entry of entries) {
+    addMemoryEntry(sessionID, {
+      ...entry,
+      stepNumber,
+      instruction: `子任务 ${index + 1}（${goal}）: ${entry.instruction}`,
+    });
+  }
+}
+
+// 给规划模型的子任务结果提醒
+export function describeChildRuns(stepNumber: number, children: ChildRunSummary[]): string {
+  const lines = children.map((child, i) => {
+    const outcome =
+      child.status === "done"
+        ? `完成，答案: ${child.answer?.answer ?? "（无）"}`
+        : `未完成（${child.error ?? child.status}）`;
+    return `  ${i + 1}. ${child.goal}: ${outcome}`;
+  });
+  return `步骤 ${stepNumber} 的并行子任务已结束，它们收集到的信息已合并到记忆中:\n${lines.join("\n")}`;
+}
@@ -0,0 +1,203 @@
+import { Page } from "@browserbasehq/stagehand";
+
+// 页面上可交互的元素，序号从1开始，规划模型在指令中用 [序号] 指代
+export type DigestElement = {
+  index: number;
+  role: string;
+  name: string;
+  value?: string;
+  // 用于后续通过CDP直接定位元素
+  backendNodeId?: number;
+};
+
+export type PageDigest = {
+  url: string;
+  title: string;
+  headings: { level: number; text: string }[];
+  elements: DigestElement[];
+  // 超出预算未列出的元素数量
+  omittedElements: number;
+};
+
+type AXValue = { value?: unknown };
+
+type AXNode = {
+  ignored: boolean;
+  role?: AXValue;
+  name?: AXValue;
+  value?: AXValue;
+  properties?: { name: string; value: AXValue }[];
+  backendDOMNodeId?: number;
+};
+
+// 视为可交互元素的无障碍角色
+const INTERACTIVE_ROLES = new Set([
+  "link",
+  "button",
+  "textbox",
+  "searchbox",
+  "combobox",
+  "listbox",
+  "checkbox",
+  "radio",
+  "switch",
+  "slider",
+  "spinbutton",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "tab",
+]);
+
+// 可以没有名称的输入类元素
+const INPUT_ROLES = new Set(["textbox", "searchbox", "combobox", "spinbutton"]);
+
+const MAX_HEADINGS = 10;
+const MAX_TEXT_LENGTH = 80;
+
+// 默认的页面摘要token预算
+const DEFAULT_DIGEST_TOKENS = 1500;
+
+// 存储会话ID到最近一次页面摘要的映射，执行步骤时用于解析元素序号
+const pageDigests: Map<string, PageDigest> = new Map();
+
+export function resolveDigestTokenBudget(): number {
+  const value = Number(process.env.AGENT_PAGE_DIGEST_TOKENS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_DIGEST_TOKENS;
+}
+
+// 粗略估计token数：中日韩字符每个约1个token，其他字符约4个为1个token
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function truncate(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_TEXT_LENGTH ? `${clean.slice(0, MAX_TEXT_LENGTH)}…` : clean;
+}
+
+function axText(value?: AXValue): string {
+  return value?.value === undefined || value.value === null ? "" : truncate(String(value.value));
+}
+
+function formatElement(element: DigestElement): string {
+  return `[${element.index}] ${element.role}${element.name ? ` "${element.name}"` : ""}${
+    element.value ? ` 值: "${element.value}"` : ""
+  }`;
+}
+
+// 从无障碍树生成页面摘要：标题、主要标题和编号的可交互元素，元素按token预算截断
+export async function buildPageDigest(
+  page: Page,
+  maxTokens = resolveDigestTokenBudget()
+): Promise<PageDigest> {
+  const cdpSession = await page.context().newCDPSession(page);
+  let nodes: AXNode[];
+  try {
+    ({ nodes } = (await cdpSession.send("Accessibility.getFullAXTree")) as {
+      nodes: AXNode[];
+    });
+  } finally {
+    await cdpSession.detach().catch(() => {});
+  }
+
+  const url = page.url();
+  const title = truncate(await page.title().catch(() => ""));
+  const headings: PageDigest["headings"] = [];
+  const candidates: Omit<DigestElement, "index">[] = [];
+
+  for (const node of nodes) {
+    if (node.ignored) continue;
+    const role = axText(node.role);
+    const name = axText(node.name);
+
+    if (role === "heading" && name && headings.length < MAX_HEADINGS) {
+      const level = node.properties?.find((property) => property.name === "level");
+      headings.push({ level: Number(level?.value.value) || 2, text: name });
+    } else if (INTERACTIVE_ROLES.has(role) && (name || INPUT_ROLES.has(role))) {
+      candidates.push({
+        role,
+        name,
+        value: axText(node.value) || undefined,
+        backendNodeId: node.backendDOMNodeId,
+      });
+    }
+  }
+
+  // 标题部分占用的预算先扣除，剩余预算按顺序放入元素
+  let remaining =
+    maxTokens -
+    estimateTokens(title) -
+    headings.reduce((total, heading) => total + estimateTokens(heading.text) + 2, 0);
+  const elements: DigestElement[] = [];
+  for (const candidate of candidates) {
+    const element = { ...candidate, index: elements.length + 1 };
+    const cost = estimateTokens(formatElement(element)) + 1;
+    if (cost > remaining) break;
+    remaining -= cost;
+    elements.push(element);
+  }
+
+  return {
+    url,
+    title,
+    headings,
+    elements,
+    omittedElements: candidates.length - elements.length,
+  };
+}
+
+export function setPageDigest(sessionID: string, digest: PageDigest) {
+  pageDigests.set(sessionID, digest);
+}
+
+export function getPageDigest(sessionID: string): PageDigest | undefined {
+  return pageDigests.get(sessionID);
+}
+
+export function clearPageDigest(sessionID: string) {
+  pageDigests.delete(sessionID);
+}
+
+// 格式化为规划提示中的页面摘要
+export function formatPageDigest(digest: PageDigest): string {
+  return [
+    `标题: ${digest.title || "(无标题)"}`,
+    ...(digest.headings.length > 0
+      ? [
+          "主要标题:",
+          ...digest.headings.map((heading) => `${"#".repeat(heading.level)} ${heading.text}`),
+        ]
+      : []),
+    digest.elements.length > 0
+      ? "可交互元素（在ACT指令中可以用 [序号] 指代）:"
+      : "页面上没有找到可交互元素",
+    ...digest.elements.map(formatElement),
+    ...(digest.omittedElements > 0
+      ? [`（还有 ${digest.omittedElements} 个元素未列出，需要时使用OBSERVE查看）`]
+      : []),
+  ].join("\n");
+}
+
+function describeElement(element: DigestElement): string {
+  return `${element.role}${element.name ? ` "${element.name}"` : ""}`;
+}
+
+// 将指令中的 [序号] 替换为元素的角色和名称，便于Stagehand定位；找不到的序号保持原样
+export function resolveElementReferences(instruction: string, digest?: PageDigest): string {
+  if (!digest) return instruction;
+  return instruction.replace(/\[(\d+)\]/g, (reference, index) => {
+    const element = digest.elements.find((candidate) => candidate.index === Number(index));
+    return element ? `the ${describeElement(element)}` : reference;
+  });
+}
+
+// 直接操作的目标只有 [序号] 时，保留序号用于定位并附上元素描述，便于审批规则和用户理解
+export function annotateElementReference(target: string, digest?: PageDigest): string {
+  const reference = target.trim().match(/^\[(\d+)\]$/);
+  if (!digest || !reference) return target;
+  const element = digest.elements.find((candidate) => candidate.index === Number(reference[1]));
+  return element ? `[${element.index}] ${describeElement(element)}` : target;
+}
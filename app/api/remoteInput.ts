@@ -0,0 +1,106 @@
+import { getActivePage } from "./stagehandManager";
+
+// 用户在实时画面上的操作，坐标为页面CSS像素
+export type RemoteInputEvent =
+  | { type: "click"; x: number; y: number }
+  | { type: "scroll"; x: number; y: number; deltaX: number; deltaY: number }
+  | { type: "type"; text: string }
+  | { type: "key"; key: RemoteKey };
+
+// 可以转发的特殊按键及其Windows虚拟键码
+const KEY_CODES = {
+  Enter: 13,
+  Backspace: 8,
+  Tab: 9,
+  Escape: 27,
+  Delete: 46,
+  ArrowLeft: 37,
+  ArrowUp: 38,
+  ArrowRight: 39,
+  ArrowDown: 40,
+  Home: 36,
+  End: 35,
+  PageUp: 33,
+  PageDown: 34,
+};
+
+export type RemoteKey = keyof typeof KEY_CODES;
+
+function isCoordinate(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+export function isValidRemoteInput(value: unknown): value is RemoteInputEvent {
+  if (!value || typeof value !== "object") return false;
+  const event = value as Record<string, unknown>;
+  switch (event.type) {
+    case "click":
+      return isCoordinate(event.x) && isCoordinate(event.y);
+    case "scroll":
+      return (
+        isCoordinate(event.x) &&
+        isCoordinate(event.y) &&
+        Number.isFinite(event.deltaX) &&
+        Number.isFinite(event.deltaY)
+      );
+    case "type":
+      return typeof event.text === "string" && event.text.length > 0;
+    case "key":
+      return typeof event.key === "string" && Object.keys(KEY_CODES).includes(event.key);
+    default:
+      return false;
+  }
+}
+
+// 通过CDP的Input.dispatch*把用户操作转发到会话当前的标签页
+export async function dispatchRemoteInput(
+  sessionID: string,
+  event: RemoteInputEvent
+): Promise<void> {
+  const page = await getActivePage(sessionID);
+  const cdpSession = await page.context().newCDPSession(page);
+  try {
+    switch (event.type) {
+      case "click":
+        for (const type of ["mousePressed", "mouseReleased"] as const) {
+          await cdpSession.send("Input.dispatchMouseEvent", {
+            type,
+            x: event.x,
+            y: event.y,
+            button: "left",
+            clickCount: 1,
+          });
+        }
+        break;
+
+      case "scroll":
+        await cdpSession.send("Input.dispatchMouseEvent", {
+          type: "mouseWheel",
+          x: event.x,
+          y: event.y,
+          deltaX: event.deltaX,
+          deltaY: event.deltaY,
+        });
+        break;
+
+      case "type":
+        await cdpSession.send("Input.insertText", { text: event.text });
+        break;
+
+      case "key":
+        for (const type of ["keyDown", "keyUp"] as const) {
+          await cdpSession.send("Input.dispatchKeyEvent", {
+            type,
+            key: event.key,
+            code: event.key,
+            windowsVirtualKeyCode: KEY_CODES[event.key],
+            // 回车需要带上文本才会触发表单提交
+            ...(type === "keyDown" && event.key === "Enter" ? { text: "\r" } : {}),
+          });
+        }
+        break;
+    }
+  } finally {
+    await cdpSession.detach().catch(() => {});
+  }
+}
@@ -0,0 +1,133 @@
+// 单次运行的资源上限
+export type RunLimits = {
+  maxSteps: number;
+  maxDurationMs: number;
+  maxTokens: number;
+};
+
+export type StopReason = "max_steps" | "timeout" | "max_tokens" | "loop" | "cancelled";
+
+// 用于循环检测的步骤信息，url为步骤执行后所在的页面
+export type BudgetStep = {
+  tool: string;
+  instruction: string;
+  url?: string;
+};
+
+// 相同步骤连续出现该次数即视为陷入循环
+const REPEAT_THRESHOLD = 3;
+
+// 检测的URL循环周期，例如2表示 A→B→A→B
+const CYCLE_PERIODS = [2, 3];
+
+// 剩余步数不超过该值时提醒模型尽快收尾
+const LOW_STEPS_WARNING = 3;
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// 合并环境变量中的默认上限和请求中指定的上限
+export function resolveRunLimits(overrides: Partial<RunLimits> = {}): RunLimits {
+  return {
+    maxSteps: overrides.maxSteps ?? readLimit("AGENT_MAX_STEPS", 50),
+    maxDurationMs: overrides.maxDurationMs ?? readLimit("AGENT_MAX_DURATION_MS", 15 * 60 * 1000),
+    maxTokens: overrides.maxTokens ?? readLimit("AGENT_MAX_TOKENS", 1_000_000),
+  };
+}
+
+export function isValidRunLimits(value: unknown): value is Partial<RunLimits> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  return Object.entries(value).every(
+    ([key, limit]) =>
+      ["maxSteps", "maxDurationMs", "maxTokens"].includes(key) &&
+      (limit === undefined || (typeof limit === "number" && limit > 0))
+  );
+}
+
+// 存储会话ID到已消耗token数的映射
+const sessionTokenUsage: Map<string, number> = new Map();
+
+export function addTokenUsage(sessionID: string, tokens: number | undefined): void {
+  if (!tokens || Number.isNaN(tokens)) return;
+  sessionTokenUsage.set(sessionID, (sessionTokenUsage.get(sessionID) ?? 0) + tokens);
+}
+
+export function getTokenUsage(sessionID: string): number {
+  return sessionTokenUsage.get(sessionID) ?? 0;
+}
+
+export function clearTokenUsage(sessionID: string): void {
+  sessionTokenUsage.delete(sessionID);
+}
+
+// 检查是否超出上限，返回停止原因
+export function checkBudget(
+  usage: { steps: number; startedAt: number; tokens: number },
+  limits: RunLimits
+): StopReason | null {
+  if (usage.steps >= limits.maxSteps) return "max_steps";
+  if (Date.now() - usage.startedAt >= limits.maxDurationMs) return "timeout";
+  if (usage.tokens >= limits.maxTokens) return "max_tokens";
+  return null;
+}
+
+export function describeStopReason(reason: StopReason, limits: RunLimits): string {
+  switch (reason) {
+    case "max_steps":
+      return `已达到步数上限（${limits.maxSteps}步），运行已停止`;
+    case "timeout":
+      return `已达到时间上限（${Math.round(limits.maxDurationMs / 1000)}秒），运行已停止`;
+    case "max_tokens":
+      return `已达到token上限（${limits.maxTokens}），运行已停止`;
+    case "loop":
+      return "检测到重复的操作循环，运行已停止";
+    case "cancelled":
+      return "运行已被用户取消";
+  }
+}
+
+// 剩余步数不多时给模型的提醒
+export function describeRemainingSteps(steps: number, limits: RunLimits): string | null {
+  const remaining = limits.maxSteps - steps;
+  return remaining <= LOW_STEPS_WARNING
+    ? `只剩 ${remaining} 步可用，请尽快收集所需信息并使用CLOSE结束任务。`
+    : null;
+}
+
+// 检测到循环后给模型的提醒
+export function describeLoopWarning(loop: string): string {
+  return `${loop}。请换一种方法，或者在信息足够时使用CLOSE结束任务。`;
+}
+
+// 检测重复的相同步骤或页面间的来回跳转，返回循环的描述
+export function detectLoop(steps: BudgetStep[]): string | null {
+  const recent = steps.slice(-REPEAT_THRESHOLD);
+  if (
+    recent.length === REPEAT_THRESHOLD &&
+    recent.every(
+      (step) =>
+        step.tool === recent[0].tool && step.instruction === recent[0].instruction
+    )
+  ) {
+    return `最近 ${REPEAT_THRESHOLD} 步都是相同的操作: ${recent[0].tool} "${recent[0].instruction}"`;
+  }
+
+  // 合并连续相同的URL后检查周期性的跳转
+  const urls = steps
+    .map((step) => step.url)
+    .filter((url): url is string => !!url)
+    .filter((url, i, all) => i === 0 || url !== all[i - 1]);
+
+  for (const period of CYCLE_PERIODS) {
+    if (urls.length < period * 2) continue;
+    const last = urls.slice(-period);
+    const previous = urls.slice(-period * 2, -period);
+    if (last.every((url, i) => url === previous[i])) {
+      return `在这些页面之间来回跳转: ${last.join(" → ")}`;
+    }
+  }
+
+  return null;
+}
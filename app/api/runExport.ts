@@ -0,0 +1,248 @@
+import { ChildRunSummary } from "./fanOut";
+import { loadScreenshot, StoredRun, StoredStep } from "./runStore";
+import { formatTaskPlan } from "./taskPlan";
+
+export type ExportFormat = "json" | "csv" | "md";
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+type Row = Record<string, unknown>;
+
+function isRow(value: unknown): value is Row {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// 将一次提取结果展开为表格行：对象数组每项一行，包含对象数组的对象展开其中的数组，其他结果作为一行
+function toRows(content: unknown): Row[] {
+  if (Array.isArray(content)) {
+    return content.map((item) => (isRow(item) ? item : { value: item }));
+  }
+  if (isRow(content)) {
+    const nested = Object.values(content).find(
+      (value) => Array.isArray(value) && value.length > 0 && value.every(isRow)
+    );
+    return nested ? (nested as Row[]) : [content];
+  }
+  return [{ content }];
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeCsv(value: unknown): string {
+  const text = formatValue(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeMarkdownCell(value: unknown): string {
+  return formatValue(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function formatTime(timestamp?: number): string {
+  return timestamp ? new Date(timestamp).toISOString() : "";
+}
+
+// 完整的运行记录：目标、对话的每一轮、步骤及推理、提取结果和时间
+export function exportRunJson(run: StoredRun): string {
+  return JSON.stringify(
+    {
+      runId: run.runId,
+      goal: run.goal,
+      status: run.status,
+      stopReason: run.stopReason,
+      error: run.error,
+      createdAt: formatTime(run.createdAt),
+      updatedAt: formatTime(run.updatedAt),
+      plan: run.plan,
+      answer: run.answer,
+      turns: run.turns?.map((turn) => ({
+        goal: turn.goal,
+        startStepNumber: turn.startStepNumber,
+        answer: turn.answer,
+      })),
+      steps: run.steps.map((step) => ({
+        stepNumber: step.stepNumber,
+        tool: step.tool,
+        text: step.text,
+        reasoning: step.reasoning,
+        instruction: step.instruction,
+        schema: step.schema,
+        value: step.value,
+        url: step.url,
+        result: step.result,
+        error: step.error,
+        steering: step.steering,
+        verdict: step.verdict,
+        approval: step.approval,
+        plannedAt: formatTime(step.plannedAt),
+        finishedAt: formatTime(step.finishedAt),
+      })),
+      extractions: run.memory.map((entry) => ({
+        ...entry,
+        timestamp: formatTime(entry.timestamp),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// 所有提取结果合并为一张表，每行注明来源步骤和页面；来源列带下划线前缀，
+// 不会和提取出的step、url等字段重名
+export function exportRunCsv(run: StoredRun): string {
+  const rows = run.memory
+    .filter((entry) => entry.tool === "EXTRACT")
+    .flatMap((entry) =>
+      toRows(entry.content).map((row) => ({
+        ...row,
+        _step: entry.stepNumber,
+        _page_url: entry.url,
+      }))
+    );
+
+  const columns = Array.from(
+    new Set(["_step", "_page_url", ...rows.flatMap((row) => Object.keys(row))])
+  );
+
+  return [
+    columns.map(escapeCsv).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsv((row as Row)[column])).join(",")
+    ),
+  ].join("\r\n");
+}
+
+function markdownTable(rows: Row[]): string {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  return [
+    `| ${columns.map(escapeMarkdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map(
+      (row) => `| ${columns.map((column) => escapeMarkdownCell(row[column])).join(" | ")} |`
+    ),
+  ].join("\n");
+}
+
+function formatStepResult(step: StoredStep): string | null {
+  if (step.result === undefined || step.result === null) return null;
+  if (typeof step.result === "string") {
+    return step.result
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n");
+  }
+  if (step.tool === "EXTRACT") {
+    return markdownTable(toRows(step.result));
+  }
+  // 每个子任务一行，注明子运行的ID、状态和答案
+  if (step.tool === "FAN_OUT" && Array.isArray(step.result)) {
+    return (step.result as ChildRunSummary[])
+      .map(
+        (child, i) =>
+          `${i + 1}. ${child.goal} (${[child.runId, child.status].filter(Boolean).join(", ")}): ${
+            child.answer?.answer ?? child.error ?? "（无答案）"
+          }`
+      )
+      .join("\n");
+  }
+  return `\`\`\`json\n${JSON.stringify(step.result, null, 2)}\n\`\`\``;
+}
+
+type ExportedAnswer = {
+  answer: string;
+  citations?: { claim: string; url: string; stepNumber: number }[];
+};
+
+// 答案正文和来源列表，heading为来源列表的标题层级
+function formatAnswer(answer: ExportedAnswer, heading: string): string[] {
+  const parts = [answer.answer];
+  if (answer.citations && answer.citations.length > 0) {
+    parts.push(
+      `${heading} 来源\n\n${answer.citations
+        .map(
+          (citation, i) =>
+            `${i + 1}. ${citation.claim} — [步骤 ${citation.stepNumber}](${citation.url})`
+        )
+        .join("\n")}`
+    );
+  }
+  return parts;
+}
+
+// 可读的报告，截图以data URI内嵌，报告可以脱离服务单独查看
+export async function exportRunMarkdown(run: StoredRun): Promise<string> {
+  const answer = run.answer as ExportedAnswer | undefined;
+
+  const sections: string[] = [
+    `# ${run.goal}`,
+    [
+      `- 运行ID: ${run.runId}`,
+      `- 状态: ${run.status}`,
+      `- 开始时间: ${formatTime(run.createdAt)}`,
+      `- 更新时间: ${formatTime(run.updatedAt)}`,
+      ...(run.error ? [`- 错误: ${run.error}`] : []),
+    ].join("\n"),
+  ];
+
+  // 多轮对话的每一轮单独列出目标和答案，最后一轮的答案即运行的答案
+  if (run.turns && run.turns.length > 1) {
+    sections.push("## 对话");
+    run.turns.forEach((turn, i) => {
+      const turnAnswer = turn.answer as ExportedAnswer | undefined;
+      sections.push(
+        [
+          `### 第 ${i + 1} 轮: ${turn.goal}\n\n- 起始步骤: ${turn.startStepNumber}`,
+          ...(turnAnswer ? formatAnswer(turnAnswer, "####") : ["（没有答案）"]),
+        ].join("\n\n")
+      );
+    });
+  } else if (answer) {
+    sections.push(`## 答案\n\n${formatAnswer(answer, "###").join("\n\n")}`);
+  }
+
+  if (run.plan) {
+    sections.push(`## 计划\n\n${formatTaskPlan(run.plan)}`);
+  }
+
+  sections.push("## 步骤");
+  for (const step of run.steps) {
+    const lines = [
+      `### 步骤 ${step.stepNumber}: ${step.text}`,
+      `- 工具: ${step.tool}`,
+      `- 指令: ${step.instruction}`,
+      `- 推理: ${step.reasoning}`,
+      ...(step.url ? [`- 页面: ${step.url}`] : []),
+      ...(step.plannedAt ? [`- 时间: ${formatTime(step.plannedAt)}`] : []),
+      ...(step.steering ?? []).map((message) => `- 补充指令: ${message}`),
+      ...(step.verdict ? [`- 验证: ${step.verdict.outcome} (${step.verdict.explanation})`] : []),
+      ...(step.approval ? [`- 审批: ${step.approval.status}`] : []),
+      ...(step.error ? [`- 失败 (${step.error.kind}): ${step.error.message}`] : []),
+    ];
+
+    const result = formatStepResult(step);
+    if (result) {
+      lines.push("", result);
+    }
+
+    if (step.hasScreenshot) {
+      const screenshot = await loadScreenshot(run.runId, step.stepNumber);
+      if (screenshot) {
+        lines.push(
+          "",
+          `![步骤 ${step.stepNumber} 截图](data:image/png;base64,${screenshot.toString("base64")})`
+        );
+      }
+    }
+
+    sections.push(lines.join("\n"));
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
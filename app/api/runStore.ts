@@ -0,0 +1,177 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { MemoryEntry } from "./agentMemory";
+import { NumberedStep, PauseState } from "./agentRunner";
+import { ApprovalRecord } from "./approvalPolicy";
+import { RunTurn } from "./conversation";
+import { TaskPlan } from "./taskPlan";
+import { RunLimits, StopReason } from "./runBudget";
+import { StepFailure } from "./stepErrors";
+import { StepVerdict } from "./stepVerifier";
+import { ModelOverrides } from "@/utils/model";
+
+// 持久化的单个步骤，包含执行结果、失败信息和截图标记
+export type StoredStep = NumberedStep & {
+  result?: unknown;
+  error?: StepFailure;
+  hasScreenshot?: boolean;
+  // 步骤执行后所在的页面，用于检测页面间的循环跳转
+  url?: string;
+  // 步骤执行前所在的页面
+  beforeUrl?: string;
+  hasBeforeScreenshot?: boolean;
+  // 规划该步骤时检测到的循环
+  warning?: string;
+  // 规划该步骤前用户在运行中补充的指令
+  steering?: string[];
+  // 执行后对比页面变化得到的验证结果
+  verdict?: StepVerdict;
+  // 风险步骤的用户审批记录
+  approval?: ApprovalRecord;
+  plannedAt?: number;
+  finishedAt?: number;
+};
+
+export type StoredRun = {
+  runId: string;
+  // FAN_OUT拆分出的子运行记录协调运行的ID
+  parentRunId?: string;
+  sessionId: string;
+  goal: string;
+  // 对话的每一轮，旧的运行记录中没有该字段
+  turns?: RunTurn[];
+  // 当前目标的子目标清单
+  plan?: TaskPlan;
+  models?: ModelOverrides;
+  status: "running" | "paused_for_user" | "done" | "error" | "stopped";
+  pause?: PauseState;
+  steps: StoredStep[];
+  memory: MemoryEntry[];
+  answer?: unknown;
+  error?: string;
+  lastUrl?: string;
+  limits?: RunLimits;
+  allowedDomains?: string[];
+  stopReason?: StopReason;
+  // 所有会话累计消耗的token数
+  tokensUsed?: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type RunSummary = Pick<
+  StoredRun,
+  "runId" | "goal" | "status" | "createdAt" | "updatedAt"
+> & { stepCount: number };
+
+// 运行记录以JSON文件的形式存储，每个运行一个目录
+const RUNS_DIR = process.env.RUNS_DIR || path.join(process.cwd(), ".data", "runs");
+
+// 运行ID只能包含字母、数字、下划线和连字符，用作目录名时不会路径穿越
+export function isValidRunId(runId: string): boolean {
+  return /^[\w-]+$/.test(runId);
+}
+
+// 只允许由运行ID生成的安全目录名，防止路径穿越
+function getRunDir(runId: string): string {
+  if (!isValidRunId(runId)) {
+    throw new Error(`Invalid run id: ${runId}`);
+  }
+  return path.join(RUNS_DIR, runId);
+}
+
+export type ScreenshotPhase = "before" | "after";
+
+function getScreenshotPath(
+  runId: string,
+  stepNumber: number,
+  phase: ScreenshotPhase
+): string {
+  return path.join(getRunDir(runId), "screenshots", `step-${stepNumber}-${phase}.png`);
+}
+
+// 保存运行记录，先写临时文件再重命名，避免读到写了一半的文件
+export async function saveRun(run: StoredRun): Promise<void> {
+  const runDir = getRunDir(run.runId);
+  await fs.mkdir(runDir, { recursive: true });
+  const filePath = path.join(runDir, "run.json");
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}`;
+  await fs.writeFile(tmpPath, JSON.stringify(run, null, 2));
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function loadRun(runId: string): Promise<StoredRun | null> {
+  try {
+    const data = await fs.readFile(path.join(getRunDir(runId), "run.json"), "utf8");
+    return JSON.parse(data) as StoredRun;
+  } catch {
+    return null;
+  }
+}
+
+// 列出所有运行记录的摘要，最近更新的在前
+export async function listRuns(): Promise<RunSummary[]> {
+  let runIds: string[];
+  try {
+    runIds = await fs.readdir(RUNS_DIR);
+  } catch {
+    return [];
+  }
+
+  const runs = await Promise.all(runIds.map((runId) => loadRun(runId)));
+
+  // 子运行显示在协调运行的FAN_OUT步骤中，不单独列出
+  return runs
+    .filter((run): run is StoredRun => run !== null && !run.parentRunId)
+    .map((run) => ({
+      runId: run.runId,
+      goal: run.goal,
+      status: run.status,
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+      stepCount: run.steps.length,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// 删除运行记录，FAN_OUT步骤启动的子运行一并删除
+export async function deleteRun(runId: string): Promise<void> {
+  let runIds: string[];
+  try {
+    runIds = await fs.readdir(RUNS_DIR);
+  } catch {
+    runIds = [];
+  }
+  const runs = await Promise.all(runIds.map((id) => loadRun(id)));
+  const childIds = runs
+    .filter((run): run is StoredRun => run !== null && run.parentRunId === runId)
+    .map((run) => run.runId);
+
+  await Promise.all(
+    [runId, ...childIds].map((id) => fs.rm(getRunDir(id), { recursive: true, force: true }))
+  );
+}
+
+// 保存步骤执行前或执行后的截图（base64编码的PNG）
+export async function saveScreenshot(
+  runId: string,
+  stepNumber: number,
+  data: string,
+  phase: ScreenshotPhase
+): Promise<void> {
+  const filePath = getScreenshotPath(runId, stepNumber, phase);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, Buffer.from(data, "base64"));
+}
+
+export async function loadScreenshot(
+  runId: string,
+  stepNumber: number,
+  phase: ScreenshotPhase = "after"
+): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(getScreenshotPath(runId, stepNumber, phase));
+  } catch {
+    return null;
+  }
+}
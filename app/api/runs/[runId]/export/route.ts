@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import {
+  ExportFormat,
+  exportContentTypes,
+  exportRunCsv,
+  exportRunJson,
+  exportRunMarkdown,
+} from '../../../runExport';
+import { loadRun } from '../../../runStore';
+
+type RouteContext = { params: Promise<{ runId: string }> };
+
+// 以JSON、CSV或Markdown格式下载运行记录
+export async function GET(request: Request, { params }: RouteContext) {
+  const { runId } = await params;
+  const format = (new URL(request.url).searchParams.get('format') ?? 'json') as ExportFormat;
+
+  if (!Object.keys(exportContentTypes).includes(format)) {
+    return NextResponse.json(
+      { error: '无效的导出格式' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const run = await loadRun(runId);
+    if (!run) {
+      return NextResponse.json(
+        { error: '找不到指定的运行' },
+        { status: 404 }
+      );
+    }
+
+    const body =
+      format === 'json'
+        ? exportRunJson(run)
+        : format === 'csv'
+          ? exportRunCsv(run)
+          : await exportRunMarkdown(run);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': exportContentTypes[format],
+        'Content-Disposition': `attachment; filename="${runId}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('导出运行记录时出错:', error);
+    return NextResponse.json(
+      { success: false, error: '导出运行记录失败' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import {
+  createRunEventStream,
+  isRunActive,
+  resumeRun,
+  RunConflictError,
+  runStreamHeaders,
+} from '../../agentRunner';
+import { isValidRunLimits } from '../../runBudget';
+import { deleteRun, isValidRunId, loadRun } from '../../runStore';
+import { isValidModelOverrides } from '@/utils/model';
+
+type RouteContext = { params: Promise<{ runId: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { runId } = await params;
+  const run = await loadRun(runId);
+
+  if (!run) {
+    return NextResponse.json(
+      { error: '找不到指定的运行' },
+      { status: 404 }
+    );
+  }
+
+  const active = isRunActive(runId);
+
+  return NextResponse.json({
+    success: true,
+    active,
+    run: {
+      ...run,
+      status:
+        (run.status === 'running' || run.status === 'paused_for_user') && !active
+          ? 'interrupted'
+          : run.status,
+    },
+  });
+}
+
+// 在新的会话中恢复运行，并以SSE流返回后续事件
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { runId } = await params;
+    const body = await request.json();
+    const { sessionId, models, limits } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: '请求体中缺少sessionId' },
+        { status: 400 }
+      );
+    }
+
+    if (models !== undefined && !isValidModelOverrides(models)) {
+      return NextResponse.json(
+        { error: '无效的模型配置' },
+        { status: 400 }
+      );
+    }
+
+    if (limits !== undefined && !isValidRunLimits(limits)) {
+      return NextResponse.json(
+        { error: '无效的运行上限配置' },
+        { status: 400 }
+      );
+    }
+
+    const stored = await loadRun(runId);
+    if (stored?.status === 'done') {
+      return NextResponse.json(
+        { error: '运行已完成，无法恢复' },
+        { status: 409 }
+      );
+    }
+
+    const run = await resumeRun({ runId, sessionId, models, limits });
+    if (!run) {
+      return NextResponse.json(
+        { error: '找不到指定的运行' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(createRunEventStream(run), {
+      headers: { ...runStreamHeaders, 'X-Run-Id': run.runId },
+    });
+  } catch (error) {
+    if (error instanceof RunConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('恢复运行时出错:', error);
+    return NextResponse.json(
+      { success: false, error: '恢复运行失败' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { runId } = await params;
+
+  if (!isValidRunId(runId)) {
+    return NextResponse.json(
+      { error: '无效的运行ID' },
+      { status: 400 }
+    );
+  }
+
+  if (isRunActive(runId)) {
+    return NextResponse.json(
+      { error: '运行仍在进行中，无法删除' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    await deleteRun(runId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('删除运行记录时出错:', error);
+    return NextResponse.json(
+      { success: false, error: '删除运行记录失败' },
+      { status: 500 }
+    );
+  }
+}
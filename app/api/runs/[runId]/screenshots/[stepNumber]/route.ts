@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { loadScreenshot } from '../../../../runStore';
+
+type RouteContext = { params: Promise<{ runId: string; stepNumber: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { runId, stepNumber } = await params;
+  const phase = new URL(request.url).searchParams.get('phase') ?? 'after';
+
+  if (phase !== 'before' && phase !== 'after') {
+    return NextResponse.json(
+      { error: '无效的截图阶段' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const screenshot = await loadScreenshot(runId, Number(stepNumber), phase);
+    if (!screenshot) {
+      return NextResponse.json(
+        { error: '找不到指定的截图' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(new Uint8Array(screenshot), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('读取截图时出错:', error);
+    return NextResponse.json(
+      { success: false, error: '读取截图失败' },
+      { status: 500 }
+    );
+  }
+}
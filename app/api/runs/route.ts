@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { isRunActive } from '../agentRunner';
+import { listRuns } from '../runStore';
+
+export async function GET() {
+  try {
+    const runs = await listRuns();
+
+    // 记录为running但不在当前进程中进行的运行，视为已中断
+    return NextResponse.json({
+      success: true,
+      runs: runs.map((run) => ({
+        ...run,
+        status:
+          (run.status === 'running' || run.status === 'paused_for_user') &&
+          !isRunActive(run.runId)
+            ? 'interrupted'
+            : run.status,
+      })),
+    });
+  } catch (error) {
+    console.error('读取运行记录时出错:', error);
+    return NextResponse.json(
+      { success: false, error: '读取运行记录失败' },
+      { status: 500 }
+    );
+  }
+}
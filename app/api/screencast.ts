@@ -0,0 +1,115 @@
+import type { CDPSession } from "playwright";
+import { Page } from "@browserbasehq/stagehand";
+import { findActivePage } from "./stagehandManager";
+
+export type ScreencastFrame = {
+  // base64编码的JPEG图片
+  data: string;
+  width: number;
+  height: number;
+  url: string;
+};
+
+// 检查当前标签页是否变化的间隔（毫秒）
+const ACTIVE_PAGE_POLL_INTERVAL = 1000;
+
+// 等待会话的浏览器打开的最长时间（毫秒），新会话的浏览器在运行开始后才启动
+const BROWSER_WAIT_TIMEOUT = 10000;
+
+const SCREENCAST_OPTIONS = {
+  format: "jpeg" as const,
+  quality: 60,
+  maxWidth: 1280,
+  maxHeight: 800,
+  everyNthFrame: 1,
+};
+
+// 等待会话的浏览器打开；只查看已有的浏览器，不会为观看者启动浏览器
+async function waitForActivePage(sessionID: string): Promise<Page | undefined> {
+  const deadline = Date.now() + BROWSER_WAIT_TIMEOUT;
+  for (;;) {
+    const page = findActivePage(sessionID);
+    if (page || Date.now() >= deadline) {
+      return page;
+    }
+    await new Promise((resolve) => setTimeout(resolve, ACTIVE_PAGE_POLL_INTERVAL));
+  }
+}
+
+// 通过CDP的Page.startScreencast推送会话当前标签页的画面，切换标签页时跟随切换；
+// 会话关闭时调用onEnd，返回停止推送的函数
+export async function startScreencast(
+  sessionID: string,
+  onFrame: (frame: ScreencastFrame) => void,
+  onEnd: () => void
+): Promise<() => Promise<void>> {
+  let page: Page | undefined;
+  let cdpSession: CDPSession | undefined;
+  let stopped = false;
+  let switching = false;
+
+  const detach = async () => {
+    const current = cdpSession;
+    cdpSession = undefined;
+    if (current) {
+      await current.send("Page.stopScreencast").catch(() => {});
+      await current.detach().catch(() => {});
+    }
+  };
+
+  const attach = async (target: Page) => {
+    await detach();
+    page = target;
+    const session = await target.context().newCDPSession(target);
+    cdpSession = session;
+    session.on("Page.screencastFrame", (event) => {
+      // 确认收到后浏览器才会发送下一帧
+      session.send("Page.screencastFrameAck", { sessionId: event.sessionId }).catch(() => {});
+      if (stopped || cdpSession !== session) return;
+      onFrame({
+        data: event.data,
+        width: event.metadata.deviceWidth,
+        height: event.metadata.deviceHeight,
+        url: target.url(),
+      });
+    });
+    await session.send("Page.startScreencast", SCREENCAST_OPTIONS);
+  };
+
+  const stop = async () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(timer);
+    await detach();
+  };
+
+  const initial = await waitForActivePage(sessionID);
+  if (!initial) {
+    throw new Error(`No browser is open for session: ${sessionID}`);
+  }
+  await attach(initial);
+
+  const timer = setInterval(async () => {
+    if (stopped || switching) return;
+    const active = findActivePage(sessionID);
+    if (!active) {
+      // 会话已关闭
+      await stop();
+      onEnd();
+      return;
+    }
+    if (active !== page) {
+      switching = true;
+      try {
+        await attach(active);
+      } catch {
+        // 标签页在切换时被关闭，下次检查时重试
+        page = undefined;
+      } finally {
+        switching = false;
+      }
+    }
+  }, ACTIVE_PAGE_POLL_INTERVAL);
+
+  return stop;
+}
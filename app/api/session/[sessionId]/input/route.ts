@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { isSessionPausedForUser } from '../../../agentRunner';
+import { readClientId } from '../../../clientId';
+import { dispatchRemoteInput, isValidRemoteInput } from '../../../remoteInput';
+import { getSessionOwner } from '../../../stagehandManager';
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+// 运行暂停等待用户时，将用户在实时画面上的点击、输入和滚动转发到浏览器
+export async function POST(request: Request, { params }: RouteContext) {
+  const { sessionId } = await params;
+
+  // 只能操作自己创建的会话的浏览器
+  const owner = getSessionOwner(sessionId);
+  if (!owner || owner !== readClientId(request)) {
+    return NextResponse.json(
+      { error: '无权操作其他客户端的会话' },
+      { status: 403 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: '无效的请求体' },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidRemoteInput(body?.event)) {
+    return NextResponse.json(
+      { error: '无效的浏览器操作' },
+      { status: 400 }
+    );
+  }
+
+  if (!isSessionPausedForUser(sessionId)) {
+    return NextResponse.json(
+      { error: '只有在运行等待用户操作时才能控制浏览器' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    await dispatchRemoteInput(sessionId, body.event);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('转发浏览器操作时出错:', error);
+    return NextResponse.json(
+      { success: false, error: '转发浏览器操作失败' },
+      { status: 500 }
+    );
+  }
+}
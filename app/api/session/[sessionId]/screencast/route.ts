@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { readClientId } from '../../../clientId';
+import { ScreencastFrame, startScreencast } from '../../../screencast';
+import { findActivePage, getSessionOwner } from '../../../stagehandManager';
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+type ScreencastEvent = ({ type: 'frame' } & ScreencastFrame) | { type: 'end' };
+
+// 以SSE流推送会话浏览器的实时画面，用于LOCAL模式下没有Browserbase调试页面的情况
+export async function GET(request: Request, { params }: RouteContext) {
+  const { sessionId } = await params;
+  const owner = getSessionOwner(sessionId);
+  // 已关闭或不存在的会话没有浏览器可看，不为观看者启动新的浏览器
+  if (!findActivePage(sessionId) && !owner) {
+    return NextResponse.json(
+      { error: '找不到会话的浏览器' },
+      { status: 404 }
+    );
+  }
+
+  // 只能观看自己创建的会话的浏览器
+  if (!owner || owner !== readClientId(request)) {
+    return NextResponse.json(
+      { error: '无权观看其他客户端的会话' },
+      { status: 403 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let stop: (() => Promise<void>) | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScreencastEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+      const end = () => {
+        send({ type: 'end' });
+        closed = true;
+        controller.close();
+      };
+
+      try {
+        stop = await startScreencast(
+          sessionId,
+          (frame) => send({ type: 'frame', ...frame }),
+          end
+        );
+      } catch (error) {
+        console.error('启动实时画面时出错:', error);
+        end();
+        return;
+      }
+      // 客户端在启动期间已断开
+      if (closed) {
+        await stop();
+      }
+    },
+    async cancel() {
+      closed = true;
+      await stop?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
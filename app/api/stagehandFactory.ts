@@ -0,0 +1,22 @@
+import { Stagehand } from "@browserbasehq/stagehand";
+import { addTokenUsage } from "./runBudget";
+import { getModel } from "@/utils/model";
+import { AISdkClient } from "@/utils/stagehandClient";
+
+// 为会话创建并初始化Stagehand实例，离线测试中替换为假浏览器（见 tests/setup.ts）
+export async function createStagehand(sessionID: string): Promise<Stagehand> {
+  const stagehand = new Stagehand({
+    browserbaseSessionID: sessionID,
+    llmClient: new AISdkClient({
+      model: getModel("stagehand", sessionID),
+      onUsage: (tokens) => addTokenUsage(sessionID, tokens),
+    }),
+    // enableCaching: true,
+    env: process.env.USE_LOCAL_MODE === 'true' ? "LOCAL" : "BROWSERBASE"
+  });
+
+  // 初始化实例
+  await stagehand.init();
+  console.log(`Created new Stagehand instance for session: ${sessionID}`);
+  return stagehand;
+}
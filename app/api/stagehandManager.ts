@@ -1,63 +1,403 @@
-import { Stagehand } from "@browserbasehq/stagehand";
+import { Page, Stagehand } from "@browserbasehq/stagehand";
+import { clearMemory } from "./agentMemory";
+import { endSession } from "./browserSessions";
+import { clearPageDigest } from "./pageDigest";
+import { clearTokenUsage } from "./runBudget";
+import { createStagehand } from "./stagehandFactory";
+import { clearSessionModels } from "@/utils/model";
 
 // 存储会话ID到Stagehand实例的映射
 const stagehandInstances: Map<string, Stagehand> = new Map();
 
-// 获取或创建Stagehand实例
-export async function getStagehandInstance(sessionID: string): Promise<Stagehand> {
-  // 检查是否已存在该会话的实例
-  let stagehand = stagehandInstances.get(sessionID);
-  
-  if (!stagehand) {
-    // 如果不存在，创建新实例
-    stagehand = new Stagehand({
-      browserbaseSessionID: sessionID,
-      // enableCaching: true,
-      env: process.env.USE_LOCAL_MODE === 'true' ? "LOCAL" : "BROWSERBASE"
+// 会话创建或最后一次使用浏览器的时间，用于回收空闲会话
+const lastActivity: Map<string, number> = new Map();
+
+// 正在运行中的会话及其持有次数，持有的会话不会因空闲被回收
+const retainedSessions: Map<string, number> = new Map();
+
+// 会话ID到创建它的客户端ID的映射，清理时只关闭调用者自己的会话
+const sessionOwners: Map<string, string> = new Map();
+
+// 正在创建中的实例，避免同一会话并发创建多个浏览器
+const pendingInstances: Map<string, Promise<Stagehand>> = new Map();
+
+// 已占用名额但尚未创建完成的实例数
+let creatingCount = 0;
+
+// 等待空闲名额的创建请求
+const slotWaiters: (() => void)[] = [];
+
+// 空闲会话的检查间隔（毫秒）
+const IDLE_SWEEP_INTERVAL = 60 * 1000;
+
+let idleSweepTimer: ReturnType<typeof setInterval> | undefined;
+
+export type SessionLimits = {
+  // 空闲多久后关闭会话的浏览器（毫秒）
+  idleTimeoutMs: number;
+  // 同时打开的浏览器数量上限
+  maxSessions: number;
+  // 达到上限时排队等待名额的最长时间（毫秒）
+  queueTimeoutMs: number;
+};
+
+const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  idleTimeoutMs: 10 * 60 * 1000,
+  maxSessions: 5,
+  queueTimeoutMs: 2 * 60 * 1000,
+};
+
+function readPositiveInt(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+// 从环境变量读取会话上限，未设置时使用默认值
+export function resolveSessionLimits(): SessionLimits {
+  return {
+    idleTimeoutMs:
+      readPositiveInt("SESSION_IDLE_TIMEOUT_MS") ?? DEFAULT_SESSION_LIMITS.idleTimeoutMs,
+    maxSessions:
+      readPositiveInt("MAX_CONCURRENT_SESSIONS") ?? DEFAULT_SESSION_LIMITS.maxSessions,
+    queueTimeoutMs:
+      readPositiveInt("SESSION_QUEUE_TIMEOUT_MS") ?? DEFAULT_SESSION_LIMITS.queueTimeoutMs,
+  };
+}
+
+// 会话中打开的标签页，按打开顺序排列
+type SessionTabs = {
+  pages: Page[];
+  active: Page;
+  // 等待下一个新标签页注册的回调
+  waiters: ((page: Page) => void)[];
+};
+
+export type TabInfo = {
+  index: number;
+  url: string;
+  title: string;
+  active: boolean;
+};
+
+// 存储会话ID到标签页的映射
+const sessionTabs: Map<string, SessionTabs> = new Map();
+
+// 等待新标签页注册的最长时间（毫秒）
+const NEW_TAB_TIMEOUT = 10000;
+
+// 跟踪会话中新打开的标签页（链接、弹窗或NEW_TAB），新标签页自动成为当前标签页
+function trackTabs(sessionID: string, stagehand: Stagehand) {
+  const tabs: SessionTabs = {
+    pages: [stagehand.page],
+    active: stagehand.page,
+    waiters: [],
+  };
+  sessionTabs.set(sessionID, tabs);
+
+  // Stagehand的popup事件监听整个浏览器上下文，回调中的页面支持act/extract/observe
+  stagehand.page.on("popup", (page) => {
+    tabs.pages.push(page);
+    tabs.active = page;
+    for (const resolve of tabs.waiters.splice(0)) {
+      resolve(page);
+    }
+  });
+}
+
+// 返回仍然打开的标签页，当前标签页被关闭时切换到最后一个标签页
+function getOpenTabs(sessionID: string): SessionTabs {
+  const tabs = sessionTabs.get(sessionID);
+  if (!tabs) {
+    throw new Error(`No browser tabs for session: ${sessionID}`);
+  }
+  tabs.pages = tabs.pages.filter((page) => !page.isClosed());
+  if (tabs.pages.length === 0) {
+    throw new Error("Target page, context or browser has been closed");
+  }
+  if (!tabs.pages.includes(tabs.active)) {
+    tabs.active = tabs.pages[tabs.pages.length - 1];
+  }
+  return tabs;
+}
+
+// 按序号（从1开始）或URL、标题中的文字查找标签页
+function findTab(tabs: SessionTabs, target: string): Page {
+  const trimmed = target.trim();
+  if (!trimmed) {
+    return tabs.active;
+  }
+
+  const index = Number(trimmed);
+  const page = Number.isInteger(index)
+    ? tabs.pages[index - 1]
+    : tabs.pages.find((candidate) =>
+        candidate.url().toLowerCase().includes(trimmed.toLowerCase())
+      );
+  if (!page) {
+    throw new Error(`Tab not found: ${target}`);
+  }
+  return page;
+}
+
+// 获取会话当前操作的标签页
+export async function getActivePage(sessionID: string): Promise<Page> {
+  await getStagehandInstance(sessionID);
+  return getOpenTabs(sessionID).active;
+}
+
+// 获取已有会话的当前标签页，会话不存在或已关闭时返回undefined，不会创建新实例
+export function findActivePage(sessionID: string): Page | undefined {
+  if (!stagehandInstances.has(sessionID)) {
+    return undefined;
+  }
+  try {
+    return getOpenTabs(sessionID).active;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function listTabs(sessionID: string): Promise<TabInfo[]> {
+  await getStagehandInstance(sessionID);
+  const tabs = getOpenTabs(sessionID);
+  return Promise.all(
+    tabs.pages.map(async (page, i) => ({
+      index: i + 1,
+      url: page.url(),
+      title: await page.title().catch(() => ""),
+      active: page === tabs.active,
+    }))
+  );
+}
+
+// 打开新标签页并设为当前标签页，提供URL时导航过去
+export async function openTab(sessionID: string, url?: string): Promise<Page> {
+  const stagehand = await getStagehandInstance(sessionID);
+  const tabs = getOpenTabs(sessionID);
+
+  const opened = new Promise<Page>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error("Timeout waiting for the new tab to open")),
+      NEW_TAB_TIMEOUT
+    );
+    tabs.waiters.push((page) => {
+      clearTimeout(timer);
+      resolve(page);
+    });
+  });
+  await stagehand.context.newPage();
+  const page = await opened;
+
+  if (url) {
+    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 60000 });
+  }
+  return page;
+}
+
+export async function switchTab(sessionID: string, target: string): Promise<Page> {
+  await getStagehandInstance(sessionID);
+  const tabs = getOpenTabs(sessionID);
+  tabs.active = findTab(tabs, target);
+  await tabs.active.bringToFront();
+  return tabs.active;
+}
+
+// 关闭标签页，不指定时关闭当前标签页；不能关闭最后一个标签页
+export async function closeTab(sessionID: string, target: string): Promise<void> {
+  await getStagehandInstance(sessionID);
+  const tabs = getOpenTabs(sessionID);
+  if (tabs.pages.length === 1) {
+    throw new Error("Cannot close the last tab");
+  }
+  await findTab(tabs, target).close();
+  getOpenTabs(sessionID);
+}
+
+// 记录会话的创建者，清理时只关闭该客户端的会话
+export function registerSessionOwner(sessionID: string, ownerID: string) {
+  sessionOwners.set(sessionID, ownerID);
+  // 从未启动浏览器的会话也会在空闲后回收
+  if (!lastActivity.has(sessionID)) {
+    lastActivity.set(sessionID, Date.now());
+  }
+  startIdleSweep();
+}
+
+export function getSessionOwner(sessionID: string): string | undefined {
+  return sessionOwners.get(sessionID);
+}
+
+// 运行期间持有会话，等待用户等空闲状态也不会被回收；返回释放函数
+export function retainSession(sessionID: string): () => void {
+  retainedSessions.set(sessionID, (retainedSessions.get(sessionID) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (retainedSessions.get(sessionID) ?? 1) - 1;
+    if (count > 0) {
+      retainedSessions.set(sessionID, count);
+    } else {
+      retainedSessions.delete(sessionID);
+    }
+  };
+}
+
+// 浏览器已断开连接或所有标签页都已关闭时，实例不再可用
+function isInstanceAlive(sessionID: string, stagehand: Stagehand): boolean {
+  const browser = stagehand.context.browser();
+  if (browser && !browser.isConnected()) {
+    return false;
+  }
+  try {
+    getOpenTabs(sessionID);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 等待空闲的浏览器名额，超时抛出错误
+async function acquireSlot(): Promise<void> {
+  const { maxSessions, queueTimeoutMs } = resolveSessionLimits();
+  while (stagehandInstances.size + creatingCount >= maxSessions) {
+    await new Promise<void>((resolve, reject) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        slotWaiters.splice(slotWaiters.indexOf(waiter), 1);
+        reject(
+          new Error(
+            `Timed out waiting for a free browser session (limit: ${maxSessions})`
+          )
+        );
+      }, queueTimeoutMs);
+      slotWaiters.push(waiter);
     });
-    
-    // 初始化实例
-    await stagehand.init();
-    
-    // 存储实例
+  }
+  creatingCount++;
+}
+
+// 释放名额，唤醒排在最前面的创建请求
+function releaseSlot() {
+  slotWaiters.shift()?.();
+}
+
+async function createInstance(sessionID: string): Promise<Stagehand> {
+  await acquireSlot();
+  try {
+    const stagehand = await createStagehand(sessionID);
     stagehandInstances.set(sessionID, stagehand);
-    
-    console.log(`Created new Stagehand instance for session: ${sessionID}`);
+    trackTabs(sessionID, stagehand);
+    startIdleSweep();
+    return stagehand;
+  } catch (error) {
+    releaseSlot();
+    throw error;
+  } finally {
+    creatingCount--;
   }
-  
-  return stagehand;
 }
 
-// 关闭并移除Stagehand实例
-export async function closeStagehandInstance(sessionID: string): Promise<void> {
+// 获取或创建Stagehand实例，浏览器已失效时重新创建
+export async function getStagehandInstance(sessionID: string): Promise<Stagehand> {
+  lastActivity.set(sessionID, Date.now());
+
   const stagehand = stagehandInstances.get(sessionID);
-  
   if (stagehand) {
-    try {
-      await stagehand.close();
-      stagehandInstances.delete(sessionID);
-      console.log(`Closed Stagehand instance for session: ${sessionID}`);
-    } catch (error) {
-      console.error(`Error closing Stagehand instance for session: ${sessionID}`, error);
+    if (isInstanceAlive(sessionID, stagehand)) {
+      return stagehand;
     }
+    // 只关闭浏览器，保留会话的记忆和模型设置
+    console.warn(`Browser for session ${sessionID} is no longer alive, re-creating it`);
+    await disposeBrowser(sessionID);
+  }
+
+  let pending = pendingInstances.get(sessionID);
+  if (!pending) {
+    pending = createInstance(sessionID).finally(() => {
+      pendingInstances.delete(sessionID);
+    });
+    pendingInstances.set(sessionID, pending);
   }
+  return pending;
 }
 
-// 关闭所有Stagehand实例
-export async function closeAllStagehandInstances(): Promise<void> {
-  const closePromises: Promise<void>[] = [];
-  
-  for (const [sessionID, stagehand] of stagehandInstances.entries()) {
-    closePromises.push(
-      stagehand.close().then(() => {
-        console.log(`Closed Stagehand instance for session: ${sessionID}`);
-      }).catch((error) => {
-        console.error(`Error closing Stagehand instance for session: ${sessionID}`, error);
-      })
-    );
+// 关闭会话的浏览器并释放名额
+async function disposeBrowser(sessionID: string): Promise<void> {
+  const stagehand = stagehandInstances.get(sessionID);
+  sessionTabs.delete(sessionID);
+  if (!stagehand) return;
+
+  stagehandInstances.delete(sessionID);
+  releaseSlot();
+  try {
+    await stagehand.close();
+    console.log(`Closed Stagehand instance for session: ${sessionID}`);
+  } catch (error) {
+    console.error(`Error closing Stagehand instance for session: ${sessionID}`, error);
+  }
+}
+
+// 关闭并移除Stagehand实例；会话仍可使用，再次使用时重新启动浏览器，
+// 因此保留会话的创建者和活动时间
+export async function closeStagehandInstance(sessionID: string): Promise<void> {
+  clearMemory(sessionID);
+  clearSessionModels(sessionID);
+  clearTokenUsage(sessionID);
+  clearPageDigest(sessionID);
+  await disposeBrowser(sessionID);
+}
+
+// 会话被删除或回收后不再使用，移除它的创建者和活动时间
+export function forgetSession(sessionID: string) {
+  lastActivity.delete(sessionID);
+  sessionOwners.delete(sessionID);
+}
+
+// 结束会话并释放远程浏览器，失败时只记录错误，不影响其他会话
+async function endSessionSafely(sessionID: string): Promise<void> {
+  try {
+    await endSession(sessionID);
+  } catch (error) {
+    console.error(`Error ending session: ${sessionID}`, error);
+  }
+}
+
+// 结束空闲超时且没有运行持有的会话（包括从未启动浏览器的会话），返回被结束的会话ID
+export async function evictIdleSessions(now = Date.now()): Promise<string[]> {
+  const { idleTimeoutMs } = resolveSessionLimits();
+  const sessions = new Set([...stagehandInstances.keys(), ...sessionOwners.keys()]);
+  const idle = Array.from(sessions).filter(
+    (sessionID) =>
+      !retainedSessions.has(sessionID) &&
+      now - (lastActivity.get(sessionID) ?? 0) >= idleTimeoutMs
+  );
+  for (const sessionID of idle) {
+    console.log(`Evicting idle session: ${sessionID}`);
+    await endSessionSafely(sessionID);
   }
-  
-  await Promise.all(closePromises);
-  stagehandInstances.clear();
-  console.log('All Stagehand instances closed');
-} 
\ No newline at end of file
+  return idle;
+}
+
+function startIdleSweep() {
+  if (idleSweepTimer) return;
+  idleSweepTimer = setInterval(() => {
+    evictIdleSessions().catch((error) => {
+      console.error("Error evicting idle sessions:", error);
+    });
+  }, IDLE_SWEEP_INTERVAL);
+  // 不阻止进程退出
+  idleSweepTimer.unref?.();
+}
+
+// 结束某个客户端创建的所有会话
+export async function closeOwnedStagehandInstances(ownerID: string): Promise<string[]> {
+  const owned = Array.from(sessionOwners.entries())
+    .filter(([, owner]) => owner === ownerID)
+    .map(([sessionID]) => sessionID);
+  await Promise.all(owned.map(endSessionSafely));
+  return owned;
+}
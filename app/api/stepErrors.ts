@@ -0,0 +1,101 @@
+// 步骤失败的类别
+export type StepErrorKind =
+  | "timeout"
+  | "element_not_found"
+  | "navigation"
+  | "session_lost"
+  | "unknown";
+
+// 返回给规划模型和客户端的失败信息
+export type StepFailure = {
+  kind: StepErrorKind;
+  message: string;
+  attempts: number;
+};
+
+// 可重试的类别：页面加载慢或网络抖动，重试通常能成功
+const TRANSIENT_KINDS: StepErrorKind[] = ["timeout", "navigation"];
+
+// 浏览器会话已不可用，只能关闭会话
+const FATAL_KINDS: StepErrorKind[] = ["session_lost"];
+
+// 重试前等待的时间（毫秒），数组长度即最大重试次数
+const RETRY_DELAYS = [1000, 3000];
+
+export class StepError extends Error {
+  kind: StepErrorKind;
+  attempts: number;
+
+  constructor(kind: StepErrorKind, message: string, attempts = 1) {
+    super(message);
+    this.name = "StepError";
+    this.kind = kind;
+    this.attempts = attempts;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+
+  get fatal(): boolean {
+    return FATAL_KINDS.includes(this.kind);
+  }
+
+  toFailure(): StepFailure {
+    return { kind: this.kind, message: this.message, attempts: this.attempts };
+  }
+}
+
+// 根据Playwright/Stagehand的错误信息判断失败类别
+export function classifyError(error: unknown): StepError {
+  if (error instanceof StepError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : "";
+
+  let kind: StepErrorKind = "unknown";
+  if (
+    /target (page, context or browser )?(has been )?closed|browser has (been )?(closed|disconnected)|session (closed|not found|expired)|websocket.*closed|connection closed/i.test(
+      message
+    )
+  ) {
+    kind = "session_lost";
+  } else if (name === "TimeoutError" || /timeout|timed out/i.test(message)) {
+    kind = "timeout";
+  } else if (/net::ERR_|NS_ERROR_|navigation (failed|interrupted)|invalid url/i.test(message)) {
+    kind = "navigation";
+  } else if (
+    /no (matching )?(element|object)|not found|could not find|resolved to 0 elements|not (visible|attached)|failed to (find|click)/i.test(
+      message
+    )
+  ) {
+    kind = "element_not_found";
+  }
+
+  return new StepError(kind, message);
+}
+
+// 执行操作，可重试的失败按退避时间重试，最终失败时抛出分类后的StepError
+export async function withRetries<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const stepError = classifyError(error);
+      stepError.attempts = attempt;
+
+      const delay = RETRY_DELAYS[attempt - 1];
+      if (!stepError.transient || delay === undefined) {
+        throw stepError;
+      }
+
+      console.warn(
+        `Transient ${stepError.kind} error, retrying in ${delay}ms:`,
+        stepError.message
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { getModel } from "@/utils/model";
+import { CoreMessage, generateObject, UserContent } from "ai";
+import { z } from "zod";
+import { Step } from "./agentCore";
+import { buildPageDigest, formatPageDigest } from "./pageDigest";
+import { addTokenUsage } from "./runBudget";
+import { getActivePage } from "./stagehandManager";
+
+// 验证结果：达到了步骤的意图、页面没有变化、或者页面发生了意料之外的变化
+export type StepOutcome = "success" | "no_op" | "unexpected";
+
+export type StepVerdict = {
+  outcome: StepOutcome;
+  explanation: string;
+};
+
+// 步骤执行前或执行后的页面状态
+export type PageSnapshot = {
+  url: string;
+  // base64编码的截图
+  screenshot: string;
+  digest: string;
+};
+
+// 需要验证的工具：可能静默地作用在错误元素上的页面操作
+const VERIFIED_TOOLS: Step["tool"][] = ["ACT", "CLICK", "TYPE", "PRESS_KEY", "SELECT_OPTION"];
+
+// 提示中列出的页面摘要变化行数上限
+const MAX_DIFF_LINES = 20;
+
+const outcomeLabels: Record<StepOutcome, string> = {
+  success: "成功",
+  no_op: "没有效果",
+  unexpected: "出现了意外的结果",
+};
+
+export function isVerifierEnabled(): boolean {
+  return process.env.AGENT_VERIFY_STEPS === "true";
+}
+
+export function shouldVerifyStep(step: Step): boolean {
+  return isVerifierEnabled() && VERIFIED_TOOLS.includes(step.tool);
+}
+
+// 记录当前页面的URL、截图和页面摘要；已有截图时直接使用
+export async function capturePageSnapshot(
+  sessionID: string,
+  screenshot?: string
+): Promise<PageSnapshot> {
+  const page = await getActivePage(sessionID);
+  if (!screenshot) {
+    const cdpSession = await page.context().newCDPSession(page);
+    try {
+      ({ data: screenshot } = await cdpSession.send("Page.captureScreenshot"));
+    } finally {
+      await cdpSession.detach().catch(() => {});
+    }
+  }
+  return {
+    url: page.url(),
+    screenshot: screenshot!,
+    digest: formatPageDigest(await buildPageDigest(page)),
+  };
+}
+
+// 页面摘要中新增和消失的行
+function diffDigests(before: string, after: string) {
+  const beforeLines = new Set(before.split("\n"));
+  const afterLines = new Set(after.split("\n"));
+  return {
+    added: [...afterLines].filter((line) => !beforeLines.has(line)).slice(0, MAX_DIFF_LINES),
+    removed: [...beforeLines].filter((line) => !afterLines.has(line)).slice(0, MAX_DIFF_LINES),
+  };
+}
+
+// 对比步骤执行前后的页面，判断步骤是否达到了它说明的意图；
+// 页面完全没有变化时不调用模型，直接判定为没有效果
+export async function verifyStep({
+  sessionID,
+  step,
+  before,
+  after,
+}: {
+  sessionID: string;
+  step: Step;
+  before: PageSnapshot;
+  after: PageSnapshot;
+}): Promise<StepVerdict> {
+  const { added, removed } = diffDigests(before.digest, after.digest);
+  const screenshotChanged = before.screenshot !== after.screenshot;
+
+  if (before.url === after.url && added.length === 0 && removed.length === 0 && !screenshotChanged) {
+    return {
+      outcome: "no_op",
+      explanation: "执行前后页面的URL、可交互元素和截图都没有变化",
+    };
+  }
+
+  const content: UserContent = [
+    {
+      type: "text",
+      text: `检查浏览器中的一个操作是否达到了它的意图。
+操作说明: ${step.text}
+工具: ${step.tool}，指令: ${step.instruction}${step.value ? `，值: ${step.value}` : ""}
+
+执行前URL: ${before.url}
+执行后URL: ${after.url}
+截图${screenshotChanged ? "有变化" : "没有变化"}（下面依次是执行前和执行后的截图）
+页面摘要中新增的内容:
+${added.join("\n") || "（无）"}
+页面摘要中消失的内容:
+${removed.join("\n") || "（无）"}
+
+请判断结果:
+- success: 页面的变化符合操作说明
+- no_op: 操作没有产生有意义的变化
+- unexpected: 页面发生了变化，但与操作说明不符，例如点错了元素或跳转到了其他页面
+并用一句话说明理由。`,
+    },
+    { type: "image", image: before.screenshot },
+    { type: "image", image: after.screenshot },
+  ];
+  const message: CoreMessage = { role: "user", content };
+
+  const result = await generateObject({
+    model: getModel("planner", sessionID),
+    schema: z.object({
+      outcome: z.enum(["success", "no_op", "unexpected"]),
+      explanation: z.string(),
+    }),
+    messages: [message],
+  });
+  addTokenUsage(sessionID, result.usage.totalTokens);
+
+  return result.object;
+}
+
+// 给规划模型的验证结果提醒
+export function describeVerdict(stepNumber: number, verdict: StepVerdict): string {
+  const hint =
+    verdict.outcome === "success"
+      ? ""
+      : " 请先确认页面的当前状态，再换一种方法（例如换一个元素或改用其他工具）。";
+  return `步骤 ${stepNumber} 的验证结果: ${outcomeLabels[verdict.outcome]}。${verdict.explanation}${hint}`;
+}
+
+export function isValidStepVerdict(value: unknown): value is StepVerdict & { stepNumber: number } {
+  if (!value || typeof value !== "object") return false;
+  const verdict = value as Record<string, unknown>;
+  return (
+    typeof verdict.stepNumber === "number" &&
+    typeof verdict.outcome === "string" &&
+    Object.hasOwn(outcomeLabels, verdict.outcome) &&
+    typeof verdict.explanation === "string"
+  );
+}
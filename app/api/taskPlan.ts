@@ -0,0 +1,149 @@
+import { getModel } from "@/utils/model";
+import { CoreMessage, generateObject } from "ai";
+import { z } from "zod";
+import { describeEarlierGoals } from "./conversation";
+import { addTokenUsage } from "./runBudget";
+
+export type SubgoalStatus = "pending" | "done" | "skipped";
+
+// 任务计划中的一个子目标，编号从1开始
+export type Subgoal = {
+  id: number;
+  description: string;
+  status: SubgoalStatus;
+};
+
+export type TaskPlan = {
+  subgoals: Subgoal[];
+  // 计划的版本，第一版为1，每次用新清单替换剩余子目标后加1
+  revision: number;
+  updatedAt: number;
+};
+
+// 规划模型在选择下一步时对计划的更新
+export type PlanUpdate = {
+  // 已完成或决定跳过的子目标编号
+  completed?: number[];
+  skipped?: number[];
+  // 替换所有未完成子目标的新清单
+  revisedSubgoals?: string[];
+};
+
+const MAX_SUBGOALS = 8;
+
+export const planUpdateSchema = z
+  .object({
+    completed: z.array(z.number()).optional(),
+    skipped: z.array(z.number()).optional(),
+    revisedSubgoals: z.array(z.string()).max(MAX_SUBGOALS).optional(),
+  })
+  .optional()
+  .describe("对任务计划的更新: 完成或跳过的子目标编号，需要调整时给出新的剩余子目标");
+
+// 在开始浏览前把目标拆分为按顺序执行的子目标清单
+export async function createTaskPlan({
+  goal,
+  earlierGoals = [],
+  startingUrl,
+  sessionID,
+}: {
+  goal: string;
+  earlierGoals?: string[];
+  startingUrl?: string;
+  sessionID: string;
+}): Promise<TaskPlan> {
+  const message: CoreMessage = {
+    role: "user",
+    content: [{
+      type: "text",
+      text: `把用户的目标拆分为按顺序执行的子目标清单，目标: "${goal}"。
+${describeEarlierGoals(earlierGoals)}${startingUrl ? `\n浏览将从 ${startingUrl} 开始。\n` : ""}
+要求:
+1. 最多 ${MAX_SUBGOALS} 个子目标，简单的目标可以只有一两个
+2. 每个子目标是一个可以检查是否已经完成的具体结果，例如"找到英伟达的行情页"或"提取最近一周的收盘价"
+3. 按执行顺序排列，最后一个子目标完成时应当已经收集到回答目标所需的全部信息`
+    }]
+  };
+
+  const result = await generateObject({
+    model: getModel("planner", sessionID),
+    schema: z.object({
+      subgoals: z.array(z.string()).min(1).max(MAX_SUBGOALS),
+    }),
+    messages: [message],
+  });
+  addTokenUsage(sessionID, result.usage.totalTokens);
+
+  return {
+    subgoals: result.object.subgoals.map((description, index) => ({
+      id: index + 1,
+      description,
+      status: "pending",
+    })),
+    revision: 1,
+    updatedAt: Date.now(),
+  };
+}
+
+// 应用规划模型的更新，先标记完成和跳过的子目标，再用新清单替换剩余的子目标；
+// 计划没有变化时返回null
+export function applyPlanUpdate(plan: TaskPlan, update?: PlanUpdate): TaskPlan | null {
+  if (!update) return null;
+
+  let changed = false;
+  let subgoals = plan.subgoals.map((subgoal) => {
+    const status: SubgoalStatus = update.completed?.includes(subgoal.id)
+      ? "done"
+      : update.skipped?.includes(subgoal.id)
+        ? "skipped"
+        : subgoal.status;
+    if (status !== subgoal.status) changed = true;
+    return { ...subgoal, status };
+  });
+
+  const revised = update.revisedSubgoals?.map((description) => description.trim()).filter(Boolean);
+  if (revised && revised.length > 0) {
+    const finished = subgoals.filter((subgoal) => subgoal.status !== "pending");
+    subgoals = [
+      ...finished,
+      ...revised.map((description) => ({ id: 0, description, status: "pending" as const })),
+    ].map((subgoal, index) => ({ ...subgoal, id: index + 1 }));
+    changed = true;
+  }
+
+  if (!changed) return null;
+  return {
+    subgoals,
+    revision: plan.revision + (revised && revised.length > 0 ? 1 : 0),
+    updatedAt: Date.now(),
+  };
+}
+
+export function isValidTaskPlan(value: unknown): value is TaskPlan {
+  if (!value || typeof value !== "object") return false;
+  const plan = value as Record<string, unknown>;
+  return (
+    Array.isArray(plan.subgoals) &&
+    plan.subgoals.every(
+      (subgoal) =>
+        !!subgoal &&
+        typeof subgoal.id === "number" &&
+        typeof subgoal.description === "string" &&
+        ["pending", "done", "skipped"].includes(subgoal.status)
+    ) &&
+    typeof plan.revision === "number"
+  );
+}
+
+// 格式化为规划提示中的计划状态，第一个未完成的子目标是当前子目标
+export function formatTaskPlan(plan: TaskPlan): string {
+  const current = plan.subgoals.find((subgoal) => subgoal.status === "pending");
+  return plan.subgoals
+    .map((subgoal) => {
+      const mark = subgoal.status === "done" ? "[x]" : subgoal.status === "skipped" ? "[-]" : "[ ]";
+      return `${mark} ${subgoal.id}. ${subgoal.description}${
+        subgoal === current ? " ← 当前" : subgoal.status === "skipped" ? "（已跳过）" : ""
+      }`;
+    })
+    .join("\n");
+}
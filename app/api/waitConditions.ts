@@ -0,0 +1,138 @@
+import { Page } from "@browserbasehq/stagehand";
+import { classifyError, StepError } from "./stepErrors";
+
+// WAIT工具支持的等待条件
+export type WaitCondition =
+  | { kind: "time"; ms: number }
+  | { kind: "network_idle" }
+  | { kind: "selector"; selector: string }
+  | { kind: "text"; text: string }
+  | { kind: "url"; pattern: string };
+
+// WAIT步骤的结果，条件在超时前没有满足时met为false
+export type WaitResult = {
+  condition: string;
+  met: boolean;
+  elapsedMs: number;
+};
+
+// 等待条件的默认超时和上限（毫秒）
+const DEFAULT_WAIT_TIMEOUT = 10000;
+const MAX_WAIT_TIMEOUT = 30000;
+
+const WAIT_FORMAT_HINT =
+  '使用毫秒数（如 "2000"）、"networkidle"、"selector:<选择器>"、"text:<文字>" 或 "url:<URL片段或/正则/>"';
+
+// 解析WAIT指令，格式不正确时抛出StepError交给模型修正
+export function parseWaitCondition(instruction: string): WaitCondition {
+  const trimmed = instruction.trim();
+  const prefixed = trimmed.match(/^(ms|selector|text|url):\s*([\s\S]+)$/i);
+
+  if (/^\d+$/.test(trimmed)) {
+    return { kind: "time", ms: Number(trimmed) };
+  }
+  if (/^network[ _-]?idle$/i.test(trimmed)) {
+    return { kind: "network_idle" };
+  }
+  if (prefixed) {
+    const [, kind, argument] = prefixed;
+    switch (kind.toLowerCase()) {
+      case "ms":
+        if (/^\d+$/.test(argument.trim())) {
+          return { kind: "time", ms: Number(argument.trim()) };
+        }
+        break;
+      case "selector":
+        return { kind: "selector", selector: argument.trim() };
+      case "text":
+        return { kind: "text", text: argument.trim() };
+      case "url":
+        return { kind: "url", pattern: argument.trim() };
+    }
+  }
+
+  throw new StepError("unknown", `Invalid WAIT condition "${instruction}": ${WAIT_FORMAT_HINT}`);
+}
+
+// 超时时间取value中的毫秒数，不超过上限
+export function resolveWaitTimeout(value?: string): number {
+  const timeout = Number(value);
+  return Number.isInteger(timeout) && timeout > 0
+    ? Math.min(timeout, MAX_WAIT_TIMEOUT)
+    : DEFAULT_WAIT_TIMEOUT;
+}
+
+function describeCondition(condition: WaitCondition): string {
+  switch (condition.kind) {
+    case "time":
+      return `${condition.ms}ms`;
+    case "network_idle":
+      return "networkidle";
+    case "selector":
+      return `selector:${condition.selector}`;
+    case "text":
+      return `text:${condition.text}`;
+    case "url":
+      return `url:${condition.pattern}`;
+  }
+}
+
+// URL模式为 /正则/ 时按正则匹配，否则检查是否包含该片段
+function matchesUrl(url: URL, pattern: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]).test(url.href) : url.href.includes(pattern);
+}
+
+// 等待条件满足或超时；超时不算失败，结果中met为false
+export async function waitForCondition(
+  page: Page,
+  condition: WaitCondition,
+  timeout: number
+): Promise<WaitResult> {
+  const startedAt = Date.now();
+  const result = (met: boolean): WaitResult => ({
+    condition: describeCondition(condition),
+    met,
+    elapsedMs: Date.now() - startedAt,
+  });
+
+  try {
+    switch (condition.kind) {
+      case "time":
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.min(condition.ms, MAX_WAIT_TIMEOUT))
+        );
+        break;
+
+      case "network_idle":
+        await page.waitForLoadState("networkidle", { timeout });
+        break;
+
+      case "selector":
+        await page.waitForSelector(condition.selector, { state: "visible", timeout });
+        break;
+
+      case "text":
+        await page.waitForSelector(`text=${condition.text}`, { state: "visible", timeout });
+        break;
+
+      case "url":
+        await page.waitForURL((url) => matchesUrl(url, condition.pattern), {
+          timeout,
+          waitUntil: "commit",
+        });
+        break;
+    }
+  } catch (error) {
+    if (classifyError(error).kind === "timeout") {
+      return result(false);
+    }
+    throw error;
+  }
+  return result(true);
+}
+
+// 等待条件没有满足时给规划模型的提醒
+export function describeUnmetWait(stepNumber: number, result: WaitResult): string {
+  return `步骤 ${stepNumber} 的等待条件 ${result.condition} 在 ${result.elapsedMs} 毫秒内没有满足，页面可能还没有加载完成或者内容不存在。请根据当前页面判断下一步。`;
+}
@@ -8,6 +8,7 @@ import Sidebar from "./Sidebar";
 interface ChatBlockProps {
   isVisible: boolean;
   onClose: () => void;
+  onSelectRun: (runId: string) => void;
   initialMessage?: string;
 }
 
@@ -21,6 +22,7 @@ export interface Message {
 export default function ChatBlock({
   isVisible,
   onClose,
+  onSelectRun,
   initialMessage,
 }: ChatBlockProps) {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -120,12 +122,9 @@ export default function ChatBlock({
         >
           {!isMobile && (
             <Sidebar
-              messages={messages}
-              input={input}
-              setInput={setInput}
-              handleSubmit={handleSubmit}
               isOpen={isSidebarOpen}
               onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
+              onSelectRun={onSelectRun}
             />
           )}
 
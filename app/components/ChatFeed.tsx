@@ -1,19 +1,21 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { useState, useEffect, useCallback, useRef } from "react";
+import { Fragment, useState, useEffect, useCallback, useRef } from "react";
 import { useWindowSize } from "usehooks-ts";
 import Image from "next/image";
 import { useAtom } from "jotai/react";
 import { contextIdAtom } from "../atoms";
 import posthog from "posthog-js";
-
-interface ExtendedWindow extends Window {
-  continueAfterUserInput?: () => void;
-}
+import ResultTable from "./ResultTable";
+import ScreenshotTimeline from "./ScreenshotTimeline";
+import LiveView from "./LiveView";
+import PlanChecklist from "./PlanChecklist";
+import ChildLanes from "./ChildLanes";
 
 interface ChatFeedProps {
   initialMessage?: string;
+  runId?: string;
   onClose: () => void;
   url?: string;
 }
@@ -21,27 +23,284 @@ interface ChatFeedProps {
 export interface BrowserStep {
   text: string;
   reasoning: string;
-  tool: "GOTO" | "ACT" | "EXTRACT" | "OBSERVE" | "CLOSE" | "WAIT" | "NAVBACK" | "USER_INPUT";
+  tool:
+    | "GOTO"
+    | "ACT"
+    | "EXTRACT"
+    | "OBSERVE"
+    | "CLOSE"
+    | "WAIT"
+    | "NAVBACK"
+    | "USER_INPUT"
+    | "NEW_TAB"
+    | "LIST_TABS"
+    | "SWITCH_TAB"
+    | "CLOSE_TAB"
+    | "CLICK"
+    | "TYPE"
+    | "PRESS_KEY"
+    | "SCROLL"
+    | "SELECT_OPTION"
+    | "HOVER"
+    | "WAIT_FOR_SELECTOR"
+    | "FAN_OUT";
   instruction: string;
+  value?: string;
+  // EXTRACT步骤的JSON Schema，result为按schema提取的结构化数据
+  schema?: string;
+  result?: unknown;
+  // 步骤执行前后的页面和截图
+  beforeUrl?: string;
+  url?: string;
+  hasBeforeScreenshot?: boolean;
+  hasScreenshot?: boolean;
+  stepNumber?: number;
+  error?: StepFailure;
+  warning?: string;
+  // 规划该步骤前用户补充的指令
+  steering?: string[];
+  approval?: ApprovalRecord;
+  // 执行后对比页面变化得到的验证结果
+  verdict?: StepVerdict;
+  // FAN_OUT步骤拆分出的并行子任务
+  subtasks?: string[];
+}
+
+export type ApprovalReason =
+  | "form_submit"
+  | "purchase"
+  | "login"
+  | "download"
+  | "external_domain";
+
+export interface ApprovalRecord {
+  status: "pending" | "approved" | "edited" | "rejected";
+  reasons: ApprovalReason[];
+  originalInstruction?: string;
+  comment?: string;
+  decidedAt?: number;
+}
+
+export interface PauseState {
+  requestedBy: "agent" | "user";
+  message: string;
   stepNumber?: number;
+  since: number;
+}
+
+type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; instruction: string }
+  | { action: "reject"; comment?: string };
+
+export interface StepVerdict {
+  outcome: "success" | "no_op" | "unexpected";
+  explanation: string;
+}
+
+export interface StepFailure {
+  kind: "timeout" | "element_not_found" | "navigation" | "session_lost" | "unknown";
+  message: string;
+  attempts: number;
+}
+
+export interface FinalAnswer {
+  answer: string;
+  citations: {
+    claim: string;
+    url: string;
+    stepNumber: number;
+  }[];
+}
+
+export interface TaskPlan {
+  subgoals: {
+    id: number;
+    description: string;
+    status: "pending" | "done" | "skipped";
+  }[];
+  revision: number;
+  updatedAt: number;
 }
 
+// FAN_OUT步骤中的一个子任务，子运行开始前没有runId
+export interface ChildLane {
+  runId?: string;
+  goal: string;
+  status: RunStatus | "queued";
+  steps: BrowserStep[];
+  answer?: FinalAnswer;
+  error?: string;
+  pendingApproval?: ApprovalReason[];
+  pause?: PauseState;
+}
+
+// 对话中的一轮：用户的目标、这一轮第一个步骤的编号和最终答案
+interface ConversationTurn {
+  goal: string;
+  startStepNumber: number;
+  answer?: FinalAnswer;
+}
+
+type RunEvent =
+  | { type: "planned"; step: BrowserStep }
+  | { type: "executing"; stepNumber: number }
+  | { type: "result"; stepNumber: number; result?: unknown }
+  | { type: "verified"; stepNumber: number; verdict: StepVerdict }
+  | { type: "failed"; stepNumber: number; error: StepFailure }
+  | { type: "warning"; message: string; stepNumber?: number }
+  | { type: "approval_required"; stepNumber: number; reasons: ApprovalReason[] }
+  | { type: "approval"; step: BrowserStep; approval: ApprovalRecord }
+  | { type: "paused"; pause: PauseState }
+  | { type: "resumed"; reply?: string }
+  | { type: "steered"; message: string }
+  | { type: "plan"; plan: TaskPlan }
+  | { type: "fan_out"; stepNumber: number; subtasks: string[] }
+  | { type: "child"; stepNumber: number; index: number; runId: string; event: RunEvent }
+  | { type: "screenshot"; stepNumber: number; phase: "before" | "after"; url: string }
+  | { type: "error"; message: string; stepNumber?: number }
+  | { type: "stopped"; reason: string; message: string }
+  | { type: "done"; answer?: FinalAnswer };
+
+// 解析服务端以SSE推送的运行事件
+async function* readRunEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<RunEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split("\n\n");
+    buffer = chunks.pop() ?? "";
+
+    for (const chunk of chunks) {
+      if (chunk.startsWith("data: ")) {
+        yield JSON.parse(chunk.slice("data: ".length));
+      }
+    }
+  }
+}
+
+type RunStatus =
+  | "running"
+  | "paused_for_user"
+  | "done"
+  | "error"
+  | "interrupted"
+  | "stopped";
+
+// 把子运行的事件应用到它的泳道上
+function applyChildEvent(lane: ChildLane, runId: string, event: RunEvent): ChildLane {
+  const started: ChildLane = {
+    ...lane,
+    runId,
+    status: lane.status === "queued" ? "running" : lane.status,
+  };
+  switch (event.type) {
+    case "planned":
+    case "approval": {
+      const steps = [...started.steps];
+      steps[(event.step.stepNumber ?? steps.length + 1) - 1] = event.step;
+      return {
+        ...started,
+        steps,
+        pendingApproval: event.type === "approval" ? undefined : started.pendingApproval,
+      };
+    }
+    case "failed":
+      return {
+        ...started,
+        steps: started.steps.map((step) =>
+          step.stepNumber === event.stepNumber ? { ...step, error: event.error } : step
+        ),
+      };
+    case "approval_required":
+      return { ...started, pendingApproval: event.reasons };
+    case "paused":
+      return { ...started, status: "paused_for_user", pause: event.pause };
+    case "resumed":
+      return { ...started, status: "running", pause: undefined };
+    case "done":
+      return { ...started, status: "done", answer: event.answer };
+    case "stopped":
+      return { ...started, status: "stopped", error: event.message, pause: undefined };
+    case "error":
+      return { ...started, status: "error", error: event.message };
+    default:
+      return started;
+  }
+}
+
+// 从历史中打开的运行没有子运行的事件，泳道由FAN_OUT步骤结果中的摘要恢复
+function lanesFromStep(step: BrowserStep): ChildLane[] {
+  if (Array.isArray(step.result)) {
+    return (step.result as ChildLane[]).map((child) => ({
+      runId: child.runId,
+      goal: child.goal,
+      status: child.status,
+      steps: child.steps,
+      answer: child.answer,
+      error: child.error,
+    }));
+  }
+  return (step.subtasks ?? []).map((goal) => ({ goal, status: "queued", steps: [] }));
+}
+
+const runStatusMessages: Record<"error" | "interrupted" | "stopped", string> = {
+  error: "运行出错已停止",
+  interrupted: "运行已中断",
+  stopped: "运行已停止",
+};
+
+const approvalReasonLabels: Record<ApprovalReason, string> = {
+  form_submit: "提交表单",
+  purchase: "购买或支付",
+  login: "登录或注册",
+  download: "下载文件",
+  external_domain: "访问不在允许列表中的域名",
+};
+
+const approvalStatusLabels: Record<ApprovalRecord["status"], string> = {
+  pending: "等待审批",
+  approved: "已批准",
+  edited: "已修改后执行",
+  rejected: "已拒绝",
+};
+
+const verdictLabels: Record<StepVerdict["outcome"], string> = {
+  success: "验证通过",
+  no_op: "没有效果",
+  unexpected: "意外结果",
+};
+
+const exportFormats = [
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV" },
+  { format: "md", label: "Markdown" },
+];
+
 interface AgentState {
+  runId: string | null;
   sessionId: string | null;
   sessionUrl: string | null;
   steps: BrowserStep[];
   isLoading: boolean;
 }
 
-export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
+export default function ChatFeed({ initialMessage, runId, onClose }: ChatFeedProps) {
   const [isLoading, setIsLoading] = useState(false);
   const { width } = useWindowSize();
   const isMobile = width ? width < 768 : false;
   const initializationRef = useRef(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
-  const [isAgentFinished, setIsAgentFinished] = useState(false);
   const [contextId, setContextId] = useAtom(contextIdAtom);
   const agentStateRef = useRef<AgentState>({
+    runId: runId ?? null,
     sessionId: null,
     sessionUrl: null,
     steps: [],
@@ -49,20 +308,51 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
   });
 
   const [uiState, setUiState] = useState<{
+    goal: string | null;
+    runStatus: RunStatus | null;
+    runError: string | null;
     sessionId: string | null;
     sessionUrl: string | null;
     steps: BrowserStep[];
+    turns: ConversationTurn[];
+    // 当前目标的子目标清单
+    plan: TaskPlan | null;
+    // FAN_OUT步骤编号到子任务泳道的映射
+    lanes: Record<number, ChildLane[]>;
     isLocalMode: boolean;
-    waitingForUserInput: boolean;
-    userInputMessage: string | null;
+    pause: PauseState | null;
+    // 已发送、还没有交给规划模型的补充指令
+    pendingSteering: string[];
+    pendingApproval: { stepNumber: number; reasons: ApprovalReason[] } | null;
+    answer: FinalAnswer | null;
   }>({
+    goal: initialMessage ?? null,
+    runStatus: null,
+    runError: null,
     sessionId: null,
     sessionUrl: null,
     steps: [],
+    turns: initialMessage ? [{ goal: initialMessage, startStepNumber: 1 }] : [],
+    plan: null,
+    lanes: {},
     isLocalMode: false,
-    waitingForUserInput: false,
-    userInputMessage: null,
+    pause: null,
+    pendingSteering: [],
+    pendingApproval: null,
+    answer: null,
   });
+  // 审批面板中可编辑的指令和拒绝说明
+  const [approvalInstruction, setApprovalInstruction] = useState("");
+  const [approvalComment, setApprovalComment] = useState("");
+  // 暂停时发给规划模型的回复，例如验证码
+  const [userReply, setUserReply] = useState("");
+  // 运行中补充给规划模型的指令
+  const [steeringMessage, setSteeringMessage] = useState("");
+  // 当前目标完成后，在同一个浏览器会话中继续提出的请求
+  const [followUp, setFollowUp] = useState("");
+  // 组件卸载时判断是否可以关闭浏览器会话
+  const runStatusRef = useRef<RunStatus | null>(null);
+  const goal = uiState.goal;
 
   const scrollToBottom = useCallback(() => {
     if (chatContainerRef.current) {
@@ -71,27 +361,491 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
     }
   }, []);
 
+  // 运行完成时显示答案，浏览器会话保留给后续请求；运行停止、出错或中断后
+  // 实时画面不再更新，改为显示步骤截图的时间线
+  const isAgentFinished = uiState.runStatus === "done";
+  const isRunEnded =
+    uiState.runStatus !== null &&
+    uiState.runStatus !== "running" &&
+    uiState.runStatus !== "paused_for_user";
+
+  useEffect(() => {
+    runStatusRef.current = uiState.runStatus;
+  }, [uiState.runStatus]);
+
+  // 关闭对话时释放浏览器会话；仍在进行的运行由服务端结束后空闲回收
+  useEffect(() => {
+    return () => {
+      const { sessionId } = agentStateRef.current;
+      const status = runStatusRef.current;
+      if (sessionId && status !== "running" && status !== "paused_for_user") {
+        fetch("/api/session", {
+          method: "DELETE",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ sessionId }),
+        }).catch((error) => {
+          console.error("关闭浏览器会话失败:", error);
+        });
+      }
+    };
+  }, []);
+
   useEffect(() => {
-    if (
-      uiState.steps.length > 0 &&
-      uiState.steps[uiState.steps.length - 1].tool === "CLOSE"
-    ) {
-      setIsAgentFinished(true);
-      fetch("/api/session", {
-        method: "DELETE",
+    scrollToBottom();
+  }, [uiState.steps, scrollToBottom]);
+
+  const createSession = useCallback(async () => {
+    const sessionResponse = await fetch("/api/session", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        contextId: contextId,
+      }),
+    });
+    const sessionData = await sessionResponse.json();
+
+    if (!sessionData.success) {
+      throw new Error(sessionData.error || "Failed to create session");
+    }
+
+    setContextId(sessionData.contextId);
+
+    const sessionUrl = sessionData.sessionUrl.replace(
+      "https://www.browserbase.com/devtools-fullscreen/inspector.html",
+      "https://www.browserbase.com/devtools-internal-compiled/index.html"
+    );
+
+    agentStateRef.current = {
+      ...agentStateRef.current,
+      sessionId: sessionData.sessionId,
+      sessionUrl,
+    };
+
+    setUiState((prev) => ({
+      ...prev,
+      sessionId: sessionData.sessionId,
+      sessionUrl,
+      isLocalMode: sessionData.isLocalMode,
+      pause: null,
+    }));
+
+    return sessionData;
+  }, [contextId, setContextId]);
+
+  // Render the events of a server-side run; the server drives the loop
+  const consumeRunStream = useCallback(
+    async (response: Response, analytics: Record<string, unknown>) => {
+      if (!response.ok || !response.body) {
+        throw new Error("Failed to stream agent run");
+      }
+
+      const streamRunId = response.headers.get("X-Run-Id");
+      if (streamRunId) {
+        agentStateRef.current = {
+          ...agentStateRef.current,
+          runId: streamRunId,
+        };
+      }
+
+      setUiState((prev) => ({ ...prev, runStatus: "running", runError: null }));
+
+      for await (const event of readRunEvents(response.body)) {
+        switch (event.type) {
+          case "planned": {
+            // A replayed step replaces the one we already know about
+            const steps = [...agentStateRef.current.steps];
+            steps[(event.step.stepNumber ?? steps.length + 1) - 1] = event.step;
+            agentStateRef.current = {
+              ...agentStateRef.current,
+              steps,
+            };
+
+            setUiState((prev) => ({
+              ...prev,
+              steps: agentStateRef.current.steps,
+              // 已交给规划模型的补充指令显示在步骤中
+              pendingSteering: prev.pendingSteering.slice(
+                event.step.steering?.length ?? 0
+              ),
+            }));
+            break;
+          }
+
+          case "executing":
+            posthog.capture("agent_execute_step", {
+              ...analytics,
+              step: agentStateRef.current.steps[event.stepNumber - 1],
+            });
+            break;
+
+          case "result": {
+            // 按schema提取的结构化数据显示为表格
+            const steps = agentStateRef.current.steps.map((step) =>
+              step.stepNumber === event.stepNumber && step.schema
+                ? { ...step, result: event.result }
+                : step
+            );
+            agentStateRef.current = {
+              ...agentStateRef.current,
+              steps,
+            };
+
+            // 没能启动的子运行没有事件，泳道的结果以FAN_OUT步骤的结果为准
+            const fanOut = steps.find(
+              (step) => step.stepNumber === event.stepNumber && step.tool === "FAN_OUT"
+            );
+            const children =
+              fanOut && Array.isArray(event.result) ? (event.result as ChildLane[]) : null;
+
+            setUiState((prev) => ({
+              ...prev,
+              steps: agentStateRef.current.steps,
+              lanes:
+                children && prev.lanes[event.stepNumber]
+                  ? {
+                      ...prev.lanes,
+                      [event.stepNumber]: prev.lanes[event.stepNumber].map((lane, index) =>
+                        children[index]
+                          ? {
+                              ...lane,
+                              status: children[index].status,
+                              answer: children[index].answer,
+                              error: children[index].error,
+                            }
+                          : lane
+                      ),
+                    }
+                  : prev.lanes,
+            }));
+            break;
+          }
+
+          case "verified": {
+            const steps = agentStateRef.current.steps.map((step) =>
+              step.stepNumber === event.stepNumber
+                ? { ...step, verdict: event.verdict }
+                : step
+            );
+            agentStateRef.current = {
+              ...agentStateRef.current,
+              steps,
+            };
+
+            setUiState((prev) => ({
+              ...prev,
+              steps: agentStateRef.current.steps,
+            }));
+            break;
+          }
+
+          case "screenshot": {
+            const steps = agentStateRef.current.steps.map((step) =>
+              step.stepNumber !== event.stepNumber
+                ? step
+                : event.phase === "before"
+                  ? { ...step, beforeUrl: event.url, hasBeforeScreenshot: true }
+                  : { ...step, url: event.url, hasScreenshot: true }
+            );
+            agentStateRef.current = {
+              ...agentStateRef.current,
+              steps,
+            };
+
+            setUiState((prev) => ({
+              ...prev,
+              steps: agentStateRef.current.steps,
+            }));
+            break;
+          }
+
+          case "paused":
+            // USER_INPUT步骤或用户主动暂停，等待用户恢复运行
+            setUserReply("");
+            setUiState((prev) => ({
+              ...prev,
+              runStatus: "paused_for_user",
+              pause: event.pause,
+            }));
+            break;
+
+          case "resumed":
+            setUiState((prev) => ({
+              ...prev,
+              runStatus: "running",
+              pause: null,
+            }));
+            break;
+
+          case "plan":
+            setUiState((prev) => ({ ...prev, plan: event.plan }));
+            break;
+
+          case "fan_out":
+            setUiState((prev) => ({
+              ...prev,
+              lanes: {
+                ...prev.lanes,
+                [event.stepNumber]: event.subtasks.map((subtask) => ({
+                  goal: subtask,
+                  status: "queued",
+                  steps: [],
+                })),
+              },
+            }));
+            break;
+
+          case "child":
+            setUiState((prev) => {
+              const lanes = prev.lanes[event.stepNumber];
+              if (!lanes?.[event.index]) return prev;
+              return {
+                ...prev,
+                lanes: {
+                  ...prev.lanes,
+                  [event.stepNumber]: lanes.map((lane, index) =>
+                    index === event.index
+                      ? applyChildEvent(lane, event.runId, event.event)
+                      : lane
+                  ),
+                },
+              };
+            });
+            break;
+
+          case "steered":
+            setUiState((prev) => ({
+              ...prev,
+              pendingSteering: [...prev.pendingSteering, event.message],
+            }));
+            break;
+
+          case "failed": {
+            // 步骤失败不会结束运行，规划模型会在下一步换一种方法
+            const steps = agentStateRef.current.steps.map((step) =>
+              step.stepNumber === event.stepNumber
+                ? { ...step, error: event.error }
+                : step
+            );
+            agentStateRef.current = {
+              ...agentStateRef.current,
+              steps,
+            };
+
+            setUiState((prev) => ({
+              ...prev,
+              steps: agentStateRef.current.steps,
+            }));
+            break;
+          }
+
+          case "warning": {
+            // 检测到循环时先提醒模型，仍在循环中才会停止运行
+            const steps = agentStateRef.current.steps.map((step) =>
+              step.stepNumber === event.stepNumber
+                ? { ...step, warning: event.message }
+                : step
+            );
+            agentStateRef.current = {
+              ...agentStateRef.current,
+              steps,
+            };
+
+            setUiState((prev) => ({
+              ...prev,
+              steps: agentStateRef.current.steps,
+            }));
+            break;
+          }
+
+          case "approval_required": {
+            // 风险步骤在执行前等待用户批准、修改或拒绝
+            const step = agentStateRef.current.steps[event.stepNumber - 1];
+            setApprovalInstruction(step?.instruction ?? "");
+            setApprovalComment("");
+            setUiState((prev) => ({
+              ...prev,
+              pendingApproval: {
+                stepNumber: event.stepNumber,
+                reasons: event.reasons,
+              },
+            }));
+            break;
+          }
+
+          case "approval": {
+            const steps = [...agentStateRef.current.steps];
+            steps[(event.step.stepNumber ?? steps.length + 1) - 1] = event.step;
+            agentStateRef.current = {
+              ...agentStateRef.current,
+              steps,
+            };
+
+            setUiState((prev) => ({
+              ...prev,
+              steps: agentStateRef.current.steps,
+              pendingApproval: null,
+            }));
+            break;
+          }
+
+          case "stopped":
+            setUiState((prev) => ({
+              ...prev,
+              runStatus: "stopped",
+              runError: event.message,
+            }));
+            break;
+
+          case "error":
+            setUiState((prev) => ({
+              ...prev,
+              runStatus: "error",
+              runError: event.message,
+            }));
+            throw new Error(event.message);
+
+          case "done":
+            setUiState((prev) => ({
+              ...prev,
+              runStatus: "done",
+              answer: event.answer ?? null,
+              turns: prev.turns.map((turn, index) =>
+                index === prev.turns.length - 1
+                  ? { ...turn, answer: event.answer }
+                  : turn
+              ),
+            }));
+            break;
+        }
+      }
+    },
+    []
+  );
+
+  // 向服务端发送运行控制操作，运行状态的变化通过事件流返回
+  const sendRunAction = useCallback(
+    (action: string, payload: Record<string, unknown> = {}) =>
+      fetch("/api/agent/run", {
+        method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          sessionId: uiState.sessionId,
+          runId: agentStateRef.current.runId,
+          action,
+          ...payload,
         }),
+      }),
+    []
+  );
+
+  // 把用户对风险步骤的决定提交给服务端
+  const submitApproval = useCallback(
+    (decision: ApprovalDecision) => {
+      setUiState((prev) => ({ ...prev, pendingApproval: null }));
+      sendRunAction("APPROVAL", { decision });
+    },
+    [sendRunAction]
+  );
+
+  // 运行中补充一条指令，下一次规划时交给模型
+  const sendSteering = useCallback(() => {
+    const message = steeringMessage.trim();
+    if (!message) return;
+    setSteeringMessage("");
+    sendRunAction("STEER", { message });
+  }, [sendRunAction, steeringMessage]);
+
+  // 在同一个浏览器会话中继续对话，之前的步骤、页面和收集到的信息都会保留
+  const sendFollowUp = useCallback(async () => {
+    const followUpGoal = followUp.trim();
+    const currentRunId = agentStateRef.current.runId;
+    if (!followUpGoal || !currentRunId) return;
+
+    setFollowUp("");
+    setIsLoading(true);
+    setUiState((prev) => ({
+      ...prev,
+      runStatus: null,
+      goal: followUpGoal,
+      answer: null,
+      plan: null,
+      pendingSteering: [],
+      turns: [
+        ...prev.turns,
+        {
+          goal: followUpGoal,
+          startStepNumber: agentStateRef.current.steps.length + 1,
+        },
+      ],
+    }));
+
+    try {
+      // 从历史打开的运行没有浏览器会话，先创建一个
+      const sessionId =
+        agentStateRef.current.sessionId ?? (await createSession()).sessionId;
+      const response = await sendRunAction("FOLLOW_UP", {
+        goal: followUpGoal,
+        sessionId,
+      });
+
+      posthog.capture("agent_follow_up", {
+        runId: currentRunId,
+        goal: followUpGoal,
+        sessionId,
+      });
+
+      await consumeRunStream(response, {
+        goal: followUpGoal,
+        sessionId,
       });
+    } catch (error) {
+      console.error("Follow-up error:", error);
+    } finally {
+      setIsLoading(false);
     }
-  }, [uiState.sessionId, uiState.steps]);
+  }, [consumeRunStream, createSession, followUp, sendRunAction]);
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [uiState.steps, scrollToBottom]);
+  // 在新的会话中恢复一个中断或出错的运行
+  const resumeRun = useCallback(async () => {
+    const currentRunId = agentStateRef.current.runId;
+    if (!currentRunId) return;
+
+    setIsLoading(true);
+    try {
+      const sessionData = await createSession();
+      const response = await fetch(`/api/runs/${currentRunId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          sessionId: sessionData.sessionId,
+        }),
+      });
+
+      posthog.capture("agent_resume", {
+        runId: currentRunId,
+        sessionId: sessionData.sessionId,
+        contextId: sessionData.contextId,
+      });
+
+      await consumeRunStream(response, {
+        goal: uiState.goal,
+        sessionId: sessionData.sessionId,
+        contextId: sessionData.contextId,
+      });
+    } catch (error) {
+      console.error("Run resume error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [consumeRunStream, createSession, uiState.goal]);
 
   useEffect(() => {
     console.log("useEffect called");
@@ -99,49 +853,64 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
       if (initializationRef.current) return;
       initializationRef.current = true;
 
-      if (initialMessage && !agentStateRef.current.sessionId) {
+      // Open a run from the history instead of starting a new one
+      if (runId) {
         setIsLoading(true);
         try {
-          const sessionResponse = await fetch("/api/session", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-              contextId: contextId,
-            }),
-          });
-          const sessionData = await sessionResponse.json();
+          const runResponse = await fetch(`/api/runs/${runId}`);
+          const runData = await runResponse.json();
 
-          if (!sessionData.success) {
-            throw new Error(sessionData.error || "Failed to create session");
+          if (!runData.success) {
+            throw new Error(runData.error || "Failed to load run");
           }
 
-          setContextId(sessionData.contextId);
-
           agentStateRef.current = {
             ...agentStateRef.current,
-            sessionId: sessionData.sessionId,
-            sessionUrl: sessionData.sessionUrl.replace(
-              "https://www.browserbase.com/devtools-fullscreen/inspector.html",
-              "https://www.browserbase.com/devtools-internal-compiled/index.html"
-            ),
+            steps: runData.run.steps,
           };
 
-          setUiState({
-            sessionId: sessionData.sessionId,
-            sessionUrl: sessionData.sessionUrl.replace(
-              "https://www.browserbase.com/devtools-fullscreen/inspector.html",
-              "https://www.browserbase.com/devtools-internal-compiled/index.html"
-            ),
-            steps: [],
-            isLocalMode: sessionData.isLocalMode,
-            waitingForUserInput: false,
-            userInputMessage: null,
-          });
+          const turns: ConversationTurn[] = runData.run.turns ?? [
+            {
+              goal: runData.run.goal,
+              startStepNumber: 1,
+              answer: runData.run.answer,
+            },
+          ];
+
+          setUiState((prev) => ({
+            ...prev,
+            goal: turns[turns.length - 1].goal,
+            turns,
+            plan: runData.run.plan ?? null,
+            runStatus: runData.run.status,
+            runError: runData.run.error ?? null,
+            pause: runData.run.pause ?? null,
+            steps: runData.run.steps,
+            answer: runData.run.answer ?? null,
+          }));
 
-          const response = await fetch("/api/agent", {
+          // 运行仍在服务端进行时，重新订阅它的事件
+          if (runData.active) {
+            const response = await fetch(`/api/agent/run?runId=${runId}`);
+            await consumeRunStream(response, {
+              goal: runData.run.goal,
+              sessionId: runData.run.sessionId,
+            });
+          }
+        } catch (error) {
+          console.error("Run loading error:", error);
+        } finally {
+          setIsLoading(false);
+        }
+        return;
+      }
+
+      if (initialMessage && !agentStateRef.current.sessionId) {
+        setIsLoading(true);
+        try {
+          const sessionData = await createSession();
+
+          const response = await fetch("/api/agent/run", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
@@ -153,128 +922,17 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
             }),
           });
 
-          const data = await response.json();
           posthog.capture("agent_start", {
             goal: initialMessage,
             sessionId: sessionData.sessionId,
             contextId: sessionData.contextId,
           });
 
-          if (data.success) {
-            const newStep = {
-              text: data.result.text,
-              reasoning: data.result.reasoning,
-              tool: data.result.tool,
-              instruction: data.result.instruction,
-              stepNumber: 1,
-            };
-
-            agentStateRef.current = {
-              ...agentStateRef.current,
-              steps: [newStep],
-            };
-
-            setUiState((prev) => ({
-              ...prev,
-              steps: [newStep],
-            }));
-
-            // Continue with subsequent steps
-            while (true) {
-              // Get next step from LLM
-              const nextStepResponse = await fetch("/api/agent", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                  goal: initialMessage,
-                  sessionId: sessionData.sessionId,
-                  previousSteps: agentStateRef.current.steps,
-                  action: "GET_NEXT_STEP",
-                }),
-              });
-
-              const nextStepData = await nextStepResponse.json();
-
-              if (!nextStepData.success) {
-                throw new Error("Failed to get next step");
-              }
-
-              // Add the next step to UI immediately after receiving it
-              const nextStep = {
-                ...nextStepData.result,
-                stepNumber: agentStateRef.current.steps.length + 1,
-              };
-
-              agentStateRef.current = {
-                ...agentStateRef.current,
-                steps: [...agentStateRef.current.steps, nextStep],
-              };
-
-              setUiState((prev) => ({
-                ...prev,
-                steps: agentStateRef.current.steps,
-              }));
-
-              // Break after adding the CLOSE step to UI
-              if (nextStepData.done || nextStepData.result.tool === "CLOSE") {
-                break;
-              }
-
-              // Execute the step
-              const executeResponse = await fetch("/api/agent", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                  sessionId: sessionData.sessionId,
-                  step: nextStepData.result,
-                  action: "EXECUTE_STEP",
-                }),
-              });
-
-              const executeData = await executeResponse.json();
-
-              posthog.capture("agent_execute_step", {
-                goal: initialMessage,
-                sessionId: sessionData.sessionId,
-                contextId: sessionData.contextId,
-                step: nextStepData.result,
-              });
-
-              if (!executeData.success) {
-                throw new Error("Failed to execute step");
-              }
-
-              // 如果是USER_INPUT步骤，等待用户确认后再继续
-              if (nextStepData.result.tool === "USER_INPUT") {
-                // 设置一个状态，表示正在等待用户输入
-                setUiState((prev) => ({
-                  ...prev,
-                  waitingForUserInput: true,
-                  userInputMessage: executeData.message || "请处理验证码或登录信息",
-                }));
-                
-                // 等待用户确认
-                await new Promise<void>((resolve) => {
-                  // 将resolve函数存储在全局变量中，以便用户确认按钮可以调用它
-                  (window as ExtendedWindow).continueAfterUserInput = () => {
-                    setUiState((prev) => ({
-                      ...prev,
-                      waitingForUserInput: false,
-                    }));
-                    resolve();
-                  };
-                });
-              }
-
-              if (executeData.done) {
-                break;
-              }
-            }
-          }
+          await consumeRunStream(response, {
+            goal: initialMessage,
+            sessionId: sessionData.sessionId,
+            contextId: sessionData.contextId,
+          });
         } catch (error) {
           console.error("Session initialization error:", error);
         } finally {
@@ -284,19 +942,7 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
     };
 
     initializeSession();
-
-    // 组件卸载时清理Stagehand实例
-    return () => {
-      // 只有在会话结束时才清理
-      if (isAgentFinished) {
-        fetch('/api/cleanup', {
-          method: 'POST',
-        }).catch(error => {
-          console.error('清理Stagehand实例失败:', error);
-        });
-      }
-    };
-  }, [initialMessage, isAgentFinished]);
+  }, [initialMessage, runId, createSession, consumeRunStream]);
 
   // Spring configuration for smoother animations
   const springConfig = {
@@ -411,7 +1057,7 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
           ) : null}
 
           <div className="flex flex-col md:flex-row">
-            {uiState.sessionUrl && !isAgentFinished && (
+            {uiState.sessionUrl && !isRunEnded && (
               <div className="flex-1 p-6 border-b md:border-b-0 md:border-l border-gray-200 order-first md:order-last">
                 <motion.div
                   initial={{ opacity: 0 }}
@@ -419,18 +1065,37 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
                   transition={{ delay: 0.4 }}
                   className="w-full aspect-video"
                 >
-                  <iframe
-                    src={uiState.sessionUrl}
-                    className="w-full h-full"
-                    sandbox="allow-same-origin allow-scripts allow-forms"
-                    loading="lazy"
-                    referrerPolicy="no-referrer"
-                    title="Browser Session"
-                  />
+                  {uiState.isLocalMode && uiState.sessionId ? (
+                    <LiveView
+                      sessionId={uiState.sessionId}
+                      interactive={uiState.runStatus === "paused_for_user"}
+                    />
+                  ) : (
+                    <iframe
+                      src={uiState.sessionUrl}
+                      className="w-full h-full"
+                      sandbox="allow-same-origin allow-scripts allow-forms"
+                      loading="lazy"
+                      referrerPolicy="no-referrer"
+                      title="Browser Session"
+                    />
+                  )}
                 </motion.div>
               </div>
             )}
 
+            {/* 历史运行和已停止、出错的运行没有实时画面，显示步骤截图的时间线 */}
+            {(!uiState.sessionUrl || isRunEnded) &&
+              !isAgentFinished &&
+              agentStateRef.current.runId && (
+              <div className="flex-1 p-6 border-b md:border-b-0 md:border-l border-gray-200 order-first md:order-last">
+                <ScreenshotTimeline
+                  runId={agentStateRef.current.runId}
+                  steps={uiState.steps}
+                />
+              </div>
+            )}
+
             {isAgentFinished && (
               <div className="flex-1 p-6 border-b md:border-b-0 md:border-l border-gray-200 order-first md:order-last">
                 <motion.div
@@ -439,14 +1104,53 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
                   transition={{ delay: 0.4 }}
                   className="w-full aspect-video"
                 >
-                  <div className="w-full h-full border border-gray-200 rounded-lg flex items-center justify-center">
-                    <p className="text-gray-500 text-center">
-                      The agent has completed the task
-                      <br />
-                      &quot;{initialMessage}&quot;
-                    </p>
-                  </div>
+                  {uiState.answer ? (
+                    <div className="w-full h-full border border-gray-200 rounded-lg p-6 overflow-y-auto font-ppsupply space-y-4">
+                      <p className="text-sm text-gray-500">
+                        &quot;{goal}&quot;
+                      </p>
+                      <p className="text-gray-900 whitespace-pre-wrap">
+                        {uiState.answer.answer}
+                      </p>
+                      {uiState.answer.citations.length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-sm font-semibold text-gray-700">来源</p>
+                          <ol className="list-decimal list-inside space-y-1 text-sm text-gray-600">
+                            {uiState.answer.citations.map((citation, index) => (
+                              <li key={index}>
+                                {citation.claim}{" "}
+                                <a
+                                  href={citation.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-blue-500 hover:underline break-all"
+                                >
+                                  [Step {citation.stepNumber}] {citation.url}
+                                </a>
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="w-full h-full border border-gray-200 rounded-lg flex items-center justify-center">
+                      <p className="text-gray-500 text-center">
+                        The agent has completed the task
+                        <br />
+                        &quot;{goal}&quot;
+                      </p>
+                    </div>
+                  )}
                 </motion.div>
+                {agentStateRef.current.runId && (
+                  <div className="mt-4">
+                    <ScreenshotTimeline
+                      runId={agentStateRef.current.runId}
+                      steps={uiState.steps}
+                    />
+                  </div>
+                )}
               </div>
             )}
 
@@ -455,35 +1159,157 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
                 ref={chatContainerRef}
                 className="h-full overflow-y-auto space-y-4"
               >
-                {initialMessage && (
+                {uiState.turns.length > 0 && (
                   <motion.div
                     variants={messageVariants}
                     className="p-4 bg-blue-50 rounded-lg font-ppsupply"
                   >
                     <p className="font-semibold">Goal:</p>
-                    <p>{initialMessage}</p>
+                    <p>{uiState.turns[0].goal}</p>
                   </motion.div>
                 )}
 
-                {uiState.steps.map((step, index) => (
+                {/* 当前目标的计划，随步骤推进实时勾选 */}
+                {uiState.plan && (
+                  <motion.div variants={messageVariants}>
+                    <PlanChecklist plan={uiState.plan} />
+                  </motion.div>
+                )}
+
+                {uiState.steps.map((step, index) => {
+                  // 后续请求开始前，显示上一轮的答案和用户的新请求
+                  const turnIndex = uiState.turns.findIndex(
+                    (turn, i) => i > 0 && turn.startStepNumber === index + 1
+                  );
+                  const previousAnswer =
+                    turnIndex > 0 ? uiState.turns[turnIndex - 1].answer : undefined;
+                  return (
+                    <Fragment key={index}>
+                      {previousAnswer && (
+                        <motion.div
+                          variants={messageVariants}
+                          className="p-4 bg-green-50 rounded-lg font-ppsupply"
+                        >
+                          <p className="font-semibold">Answer:</p>
+                          <p className="whitespace-pre-wrap">{previousAnswer.answer}</p>
+                        </motion.div>
+                      )}
+                      {turnIndex > 0 && (
+                        <motion.div
+                          variants={messageVariants}
+                          className="p-4 bg-blue-50 rounded-lg font-ppsupply"
+                        >
+                          <p className="font-semibold">Follow-up:</p>
+                          <p>{uiState.turns[turnIndex].goal}</p>
+                        </motion.div>
+                      )}
+                      <motion.div
+                        variants={messageVariants}
+                        className="p-4 bg-white border border-gray-200 rounded-lg font-ppsupply space-y-2"
+                      >
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-gray-500">
+                            Step {step.stepNumber}
+                          </span>
+                          <span className="px-2 py-1 bg-gray-100 rounded text-xs">
+                            {step.tool}
+                          </span>
+                        </div>
+                        <p className="font-medium">{step.text}</p>
+                        <p className="text-sm text-gray-600">
+                          <span className="font-semibold">Reasoning: </span>
+                          {step.reasoning}
+                        </p>
+                        {step.schema && step.result !== undefined && (
+                          <ResultTable data={step.result} />
+                        )}
+                        {step.tool === "FAN_OUT" && (
+                          <ChildLanes
+                            lanes={uiState.lanes[step.stepNumber!] ?? lanesFromStep(step)}
+                            onApprove={(childRunId) =>
+                              sendRunAction("APPROVAL", {
+                                runId: childRunId,
+                                decision: { action: "approve" },
+                              })
+                            }
+                            onReject={(childRunId) =>
+                              sendRunAction("APPROVAL", {
+                                runId: childRunId,
+                                decision: { action: "reject" },
+                              })
+                            }
+                            onResume={(childRunId) =>
+                              sendRunAction("RESUME", { runId: childRunId })
+                            }
+                          />
+                        )}
+                        {step.steering?.map((message, i) => (
+                          <p key={i} className="text-sm text-blue-700">
+                            <span className="font-semibold">补充指令: </span>
+                            {message}
+                          </p>
+                        ))}
+                        {step.verdict && (
+                          <p
+                            className={`text-sm ${
+                              step.verdict.outcome === "success"
+                                ? "text-green-700"
+                                : "text-yellow-700"
+                            }`}
+                          >
+                            <span className="font-semibold">
+                              {verdictLabels[step.verdict.outcome]}:{" "}
+                            </span>
+                            {step.verdict.explanation}
+                          </p>
+                        )}
+                        {step.warning && (
+                          <p className="text-sm text-yellow-700">
+                            <span className="font-semibold">Loop detected: </span>
+                            {step.warning}
+                          </p>
+                        )}
+                        {step.approval && (
+                          <p
+                            className={`text-sm ${
+                              step.approval.status === "rejected"
+                                ? "text-red-600"
+                                : "text-yellow-700"
+                            }`}
+                          >
+                            <span className="font-semibold">
+                              {approvalStatusLabels[step.approval.status]} (
+                              {step.approval.reasons
+                                .map((reason) => approvalReasonLabels[reason])
+                                .join(", ")}
+                              )
+                            </span>
+                            {step.approval.originalInstruction &&
+                              `: 原指令 "${step.approval.originalInstruction}"`}
+                            {step.approval.comment && `: ${step.approval.comment}`}
+                          </p>
+                        )}
+                        {step.error && (
+                          <p className="text-sm text-red-600">
+                            <span className="font-semibold">
+                              Failed ({step.error.kind}
+                              {step.error.attempts > 1 && `, ${step.error.attempts} attempts`}):{" "}
+                            </span>
+                            {step.error.message}
+                          </p>
+                        )}
+                      </motion.div>
+                    </Fragment>
+                  );
+                })}
+                {uiState.pendingSteering.map((message, index) => (
                   <motion.div
-                    key={index}
+                    key={`steering-${index}`}
                     variants={messageVariants}
-                    className="p-4 bg-white border border-gray-200 rounded-lg font-ppsupply space-y-2"
+                    className="p-4 bg-blue-50 rounded-lg font-ppsupply"
                   >
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-500">
-                        Step {step.stepNumber}
-                      </span>
-                      <span className="px-2 py-1 bg-gray-100 rounded text-xs">
-                        {step.tool}
-                      </span>
-                    </div>
-                    <p className="font-medium">{step.text}</p>
-                    <p className="text-sm text-gray-600">
-                      <span className="font-semibold">Reasoning: </span>
-                      {step.reasoning}
-                    </p>
+                    <p className="font-semibold">补充指令:</p>
+                    <p>{message}</p>
                   </motion.div>
                 ))}
                 {isLoading && (
@@ -495,23 +1321,212 @@ export default function ChatFeed({ initialMessage, onClose }: ChatFeedProps) {
                   </motion.div>
                 )}
 
-                {/* 用户输入确认按钮 */}
-                {uiState.waitingForUserInput && (
-                  <div className="mb-4 p-4 bg-orange-50 border border-orange-200 rounded-lg shadow-sm">
-                    <p className="text-gray-900 mb-4">{uiState.userInputMessage || "请处理验证码或登录信息"}</p>
+                {/* 运行结束后可以导出完整记录 */}
+                {!isLoading &&
+                  agentStateRef.current.runId &&
+                  uiState.runStatus &&
+                  uiState.runStatus !== "running" &&
+                  uiState.runStatus !== "paused_for_user" && (
+                  <div className="flex items-center gap-2 text-sm font-ppsupply">
+                    <span className="text-gray-500">导出:</span>
+                    {exportFormats.map(({ format, label }) => (
+                      <a
+                        key={format}
+                        href={`/api/runs/${agentStateRef.current.runId}/export?format=${format}`}
+                        download
+                        className="px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
+                      >
+                        {label}
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {/* 当前目标完成后可以继续提问，沿用同一个浏览器会话 */}
+                {!isLoading &&
+                  agentStateRef.current.runId &&
+                  (uiState.runStatus === "done" || uiState.runStatus === "stopped") && (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      sendFollowUp();
+                    }}
+                    className="flex gap-2"
+                  >
+                    <input
+                      value={followUp}
+                      onChange={(e) => setFollowUp(e.target.value)}
+                      placeholder="继续提问，例如：再和AMD比较一下"
+                      className="flex-1 min-w-0 p-2 text-sm border border-gray-300 rounded-md font-ppsupply"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!followUp.trim()}
+                      className="px-4 py-2 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50"
+                    >
+                      发送
+                    </button>
+                  </form>
+                )}
+
+                {/* 中断、出错或超出上限的运行可以在新会话中恢复 */}
+                {!isLoading &&
+                  (uiState.runStatus === "error" ||
+                    uiState.runStatus === "interrupted" ||
+                    uiState.runStatus === "stopped") && (
+                  <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg shadow-sm">
+                    <p className="text-gray-900 mb-4">
+                      {runStatusMessages[uiState.runStatus]}
+                    </p>
+                    {uiState.runError && (
+                      <p className="text-sm text-red-600 mb-4">{uiState.runError}</p>
+                    )}
                     <button
-                      onClick={() => {
-                        const win = window as ExtendedWindow;
-                        if (win.continueAfterUserInput) {
-                          win.continueAfterUserInput();
+                      onClick={resumeRun}
+                      className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+                    >
+                      继续运行
+                    </button>
+                  </div>
+                )}
+
+                {/* 风险步骤的审批面板 */}
+                {uiState.pendingApproval && (
+                  <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg shadow-sm space-y-3">
+                    <p className="text-gray-900">
+                      步骤 {uiState.pendingApproval.stepNumber} 需要你的确认:{" "}
+                      {uiState.pendingApproval.reasons
+                        .map((reason) => approvalReasonLabels[reason])
+                        .join("、")}
+                    </p>
+                    <textarea
+                      value={approvalInstruction}
+                      onChange={(e) => setApprovalInstruction(e.target.value)}
+                      rows={3}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                    />
+                    <input
+                      value={approvalComment}
+                      onChange={(e) => setApprovalComment(e.target.value)}
+                      placeholder="拒绝原因（可选）"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => submitApproval({ action: "approve" })}
+                        className="px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600 transition-colors"
+                      >
+                        批准
+                      </button>
+                      <button
+                        onClick={() =>
+                          submitApproval({
+                            action: "edit",
+                            instruction: approvalInstruction.trim(),
+                          })
+                        }
+                        disabled={
+                          !approvalInstruction.trim() ||
+                          approvalInstruction ===
+                            uiState.steps[uiState.pendingApproval.stepNumber - 1]
+                              ?.instruction
+                        }
+                        className="px-4 py-2 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 transition-colors disabled:opacity-50"
+                      >
+                        按修改后的指令执行
+                      </button>
+                      <button
+                        onClick={() =>
+                          submitApproval({
+                            action: "reject",
+                            comment: approvalComment.trim() || undefined,
+                          })
                         }
-                      }}
-                      className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors"
+                        className="px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+                      >
+                        拒绝
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* 暂停时等待用户操作，可以附带一条回复给规划模型 */}
+                {uiState.runStatus === "paused_for_user" && uiState.pause && (
+                  <div className="mb-4 p-4 bg-orange-50 border border-orange-200 rounded-lg shadow-sm space-y-3">
+                    <p className="text-gray-900">{uiState.pause.message}</p>
+                    <input
+                      value={userReply}
+                      onChange={(e) => setUserReply(e.target.value)}
+                      placeholder="回复（可选），例如验证码"
+                      className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() =>
+                          sendRunAction("RESUME", {
+                            reply: userReply.trim() || undefined,
+                          })
+                        }
+                        className="px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors"
+                      >
+                        {uiState.pause.requestedBy === "agent"
+                          ? "我已完成，继续执行"
+                          : "继续运行"}
+                      </button>
+                      <button
+                        onClick={() => sendRunAction("CANCEL")}
+                        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                      >
+                        停止运行
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* 运行中可以随时暂停（当前步骤结束后生效）或停止（立即中止当前步骤） */}
+                {uiState.runStatus === "running" && agentStateRef.current.runId && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => sendRunAction("PAUSE")}
+                      className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
                     >
-                      我已完成，继续执行
+                      暂停
+                    </button>
+                    <button
+                      onClick={() => sendRunAction("CANCEL")}
+                      className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
+                    >
+                      停止
                     </button>
                   </div>
                 )}
+
+                {/* 运行中或暂停时补充指令，下一次规划时生效 */}
+                {(uiState.runStatus === "running" ||
+                  uiState.runStatus === "paused_for_user") &&
+                  agentStateRef.current.runId && (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      sendSteering();
+                    }}
+                    className="flex gap-2"
+                  >
+                    <input
+                      value={steeringMessage}
+                      onChange={(e) => setSteeringMessage(e.target.value)}
+                      placeholder="补充指令，例如：只看最近一周的数据"
+                      className="flex-1 min-w-0 p-2 text-sm border border-gray-300 rounded-md font-ppsupply"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!steeringMessage.trim()}
+                      className="px-4 py-2 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50"
+                    >
+                      添加
+                    </button>
+                  </form>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from "react";
+import type { ChildLane } from "./ChatFeed";
+
+interface ChildLanesProps {
+  lanes: ChildLane[];
+  // 子运行的审批和恢复使用子运行自己的ID
+  onApprove: (runId: string) => void;
+  onReject: (runId: string) => void;
+  onResume: (runId: string) => void;
+}
+
+const laneStatusLabels: Record<ChildLane["status"], string> = {
+  queued: "排队中",
+  running: "运行中",
+  paused_for_user: "等待用户",
+  done: "完成",
+  error: "出错",
+  interrupted: "已中断",
+  stopped: "已停止",
+};
+
+const laneStatusStyles: Record<ChildLane["status"], string> = {
+  queued: "bg-gray-100 text-gray-600",
+  running: "bg-blue-100 text-blue-700",
+  paused_for_user: "bg-yellow-100 text-yellow-700",
+  done: "bg-green-100 text-green-700",
+  error: "bg-red-100 text-red-700",
+  interrupted: "bg-gray-100 text-gray-600",
+  stopped: "bg-gray-100 text-gray-600",
+};
+
+// FAN_OUT步骤拆分出的并行子任务，每个子任务一条可以折叠的泳道
+export default function ChildLanes({ lanes, onApprove, onReject, onResume }: ChildLanesProps) {
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const toggle = (index: number) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {lanes.map((lane, index) => (
+        <div key={index} className="border border-gray-200 rounded-md bg-gray-50">
+          <button
+            type="button"
+            onClick={() => toggle(index)}
+            className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm"
+          >
+            <span className="w-3 text-gray-500">{collapsed.has(index) ? "▸" : "▾"}</span>
+            <span className="flex-1 font-medium">
+              子任务 {index + 1}: {lane.goal}
+            </span>
+            <span className="text-xs text-gray-500">{lane.steps.length} 步</span>
+            <span className={`px-2 py-0.5 rounded text-xs ${laneStatusStyles[lane.status]}`}>
+              {laneStatusLabels[lane.status]}
+            </span>
+          </button>
+
+          {!collapsed.has(index) && (
+            <div className="px-3 pb-3 space-y-1 text-sm">
+              {lane.steps.map((step) => (
+                <div key={step.stepNumber}>
+                  <p className="text-gray-700">
+                    <span className="text-gray-500">Step {step.stepNumber} · {step.tool} · </span>
+                    {step.text}
+                  </p>
+                  {step.error && <p className="text-red-600">Failed: {step.error.message}</p>}
+                </div>
+              ))}
+              {lane.runId && lane.pendingApproval && (
+                <div className="flex items-center gap-2 text-yellow-700">
+                  <span className="flex-1">下一步需要你的确认</span>
+                  <button
+                    onClick={() => onApprove(lane.runId!)}
+                    className="px-2 py-1 bg-yellow-500 text-white rounded-md text-xs"
+                  >
+                    批准
+                  </button>
+                  <button
+                    onClick={() => onReject(lane.runId!)}
+                    className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md text-xs"
+                  >
+                    拒绝
+                  </button>
+                </div>
+              )}
+              {lane.runId && lane.pause && (
+                <div className="flex items-center gap-2 text-yellow-700">
+                  <span className="flex-1">{lane.pause.message}</span>
+                  <button
+                    onClick={() => onResume(lane.runId!)}
+                    className="px-2 py-1 bg-yellow-500 text-white rounded-md text-xs"
+                  >
+                    继续
+                  </button>
+                </div>
+              )}
+              {lane.answer && (
+                <p className="text-gray-900">
+                  <span className="font-semibold">Answer: </span>
+                  {lane.answer.answer}
+                </p>
+              )}
+              {lane.error && <p className="text-red-600">{lane.error}</p>}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+
+interface LiveViewProps {
+  sessionId: string;
+  // 运行等待用户时允许直接操作画面中的浏览器
+  interactive?: boolean;
+}
+
+type Frame = {
+  data: string;
+  url: string;
+  width: number;
+  height: number;
+};
+
+// 可以转发到浏览器的特殊按键，其他可打印字符作为文本输入
+const FORWARDED_KEYS = [
+  "Enter",
+  "Backspace",
+  "Tab",
+  "Escape",
+  "Delete",
+  "ArrowLeft",
+  "ArrowUp",
+  "ArrowRight",
+  "ArrowDown",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+];
+
+// LOCAL模式下的浏览器实时画面，由服务端通过CDP录屏推送
+export default function LiveView({ sessionId, interactive = false }: LiveViewProps) {
+  const [frame, setFrame] = useState<Frame | null>(null);
+  const [ended, setEnded] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setFrame(null);
+    setEnded(false);
+    const source = new EventSource(`/api/session/${sessionId}/screencast`);
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data);
+      if (event.type === "frame") {
+        setFrame({
+          data: event.data,
+          url: event.url,
+          width: event.width,
+          height: event.height,
+        });
+      } else if (event.type === "end") {
+        // 会话已关闭，不再自动重连
+        source.close();
+        setEnded(true);
+      }
+    };
+    return () => source.close();
+  }, [sessionId]);
+
+  const sendInput = useCallback(
+    (event: Record<string, unknown>) => {
+      fetch(`/api/session/${sessionId}/input`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event }),
+      }).catch((error) => console.error("Remote input error:", error));
+    },
+    [sessionId]
+  );
+
+  // 将画面中的位置换算为页面坐标，画面按object-contain缩放，落在留白处时返回null
+  const toPageCoordinates = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !frame) return null;
+    const scale = Math.min(rect.width / frame.width, rect.height / frame.height);
+    const x = (clientX - rect.left - (rect.width - frame.width * scale) / 2) / scale;
+    const y = (clientY - rect.top - (rect.height - frame.height * scale) / 2) / scale;
+    if (x < 0 || y < 0 || x > frame.width || y > frame.height) return null;
+    return { x: Math.round(x), y: Math.round(y) };
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    const point = toPageCoordinates(e.clientX, e.clientY);
+    if (point) {
+      sendInput({ type: "click", ...point });
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const point = toPageCoordinates(e.clientX, e.clientY);
+    if (point) {
+      sendInput({ type: "scroll", ...point, deltaX: e.deltaX, deltaY: e.deltaY });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (FORWARDED_KEYS.includes(e.key)) {
+      e.preventDefault();
+      sendInput({ type: "key", key: e.key });
+    } else if (e.key.length === 1) {
+      e.preventDefault();
+      sendInput({ type: "type", text: e.key });
+    }
+  };
+
+  if (!frame) {
+    return (
+      <div className="w-full h-full border border-gray-200 rounded-lg flex items-center justify-center">
+        <p className="text-gray-500 text-center">
+          {ended ? "浏览器会话已关闭" : "正在连接浏览器画面..."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full h-full border rounded-lg overflow-hidden bg-gray-50 ${
+        interactive ? "border-blue-500 cursor-pointer focus:outline-none" : "border-gray-200"
+      }`}
+      {...(interactive
+        ? {
+            tabIndex: 0,
+            onClick: handleClick,
+            onWheel: handleWheel,
+            onKeyDown: handleKeyDown,
+          }
+        : {})}
+    >
+      <Image
+        src={`data:image/jpeg;base64,${frame.data}`}
+        alt={frame.url}
+        fill
+        unoptimized
+        draggable={false}
+        className="object-contain"
+      />
+      {interactive && (
+        <p className="absolute top-2 left-2 px-2 py-1 text-xs text-white bg-blue-500 rounded-md">
+          点击画面即可直接操作浏览器，完成后点击“我已完成，继续执行”
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import type { TaskPlan } from "./ChatFeed";
+
+interface PlanChecklistProps {
+  plan: TaskPlan;
+}
+
+const statusMarks: Record<TaskPlan["subgoals"][number]["status"], string> = {
+  pending: "○",
+  done: "✓",
+  skipped: "–",
+};
+
+// 当前目标的子目标清单，随规划模型的更新实时勾选，第一个未完成的子目标高亮显示
+export default function PlanChecklist({ plan }: PlanChecklistProps) {
+  const current = plan.subgoals.find((subgoal) => subgoal.status === "pending");
+  const doneCount = plan.subgoals.filter((subgoal) => subgoal.status !== "pending").length;
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg font-ppsupply space-y-2">
+      <div className="flex justify-between items-center">
+        <p className="font-semibold">计划</p>
+        <span className="text-xs text-gray-500">
+          {doneCount}/{plan.subgoals.length}
+          {plan.revision > 1 && ` · 第 ${plan.revision} 版`}
+        </span>
+      </div>
+      <ol className="space-y-1 text-sm">
+        {plan.subgoals.map((subgoal) => (
+          <li
+            key={subgoal.id}
+            className={`flex gap-2 ${
+              subgoal.status === "done"
+                ? "text-gray-500"
+                : subgoal.status === "skipped"
+                  ? "text-gray-400 line-through"
+                  : subgoal === current
+                    ? "text-blue-700 font-medium"
+                    : "text-gray-900"
+            }`}
+          >
+            <span className="w-4 shrink-0 text-center">{statusMarks[subgoal.status]}</span>
+            <span>{subgoal.description}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+interface ResultTableProps {
+  data: unknown;
+}
+
+type Row = Record<string, unknown>;
+
+function isRow(value: unknown): value is Row {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function isUrl(value: unknown): value is string {
+  return typeof value === "string" && /^https?:\/\//.test(value);
+}
+
+// 按schema提取的结构化数据：对象数组显示为表格，单个对象显示为字段表
+export default function ResultTable({ data }: ResultTableProps) {
+  const rows: Row[] = Array.isArray(data)
+    ? data.map((item) => (isRow(item) ? item : { value: item }))
+    : isRow(data)
+      ? [data]
+      : [{ value: data }];
+
+  // 单个对象中的对象数组（例如 { products: [...] }）单独显示为表格
+  if (!Array.isArray(data) && isRow(data)) {
+    const nested = Object.entries(data).filter(
+      ([, value]) => Array.isArray(value) && value.every(isRow)
+    );
+    if (nested.length > 0) {
+      const rest = Object.fromEntries(
+        Object.entries(data).filter(([key]) => !nested.some(([name]) => name === key))
+      );
+      return (
+        <div className="space-y-2">
+          {Object.keys(rest).length > 0 && <ResultTable data={rest} />}
+          {nested.map(([name, value]) => (
+            <div key={name}>
+              <p className="text-xs font-semibold text-gray-500 mb-1">{name}</p>
+              <ResultTable data={value} />
+            </div>
+          ))}
+        </div>
+      );
+    }
+  }
+
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-xs border border-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            {columns.map((column) => (
+              <th
+                key={column}
+                className="px-2 py-1 text-left font-semibold text-gray-700 border-b border-gray-200"
+              >
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="border-b border-gray-100 last:border-0">
+              {columns.map((column) => (
+                <td key={column} className="px-2 py-1 text-gray-600 align-top break-all">
+                  {isUrl(row[column]) ? (
+                    <a
+                      href={row[column] as string}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-500 hover:underline"
+                    >
+                      {row[column] as string}
+                    </a>
+                  ) : (
+                    formatCell(row[column])
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useMemo, useState } from "react";
+import Image from "next/image";
+import type { BrowserStep } from "./ChatFeed";
+
+interface ScreenshotTimelineProps {
+  runId: string;
+  steps: BrowserStep[];
+}
+
+type Frame = {
+  stepNumber: number;
+  phase: "before" | "after";
+  url?: string;
+  step: BrowserStep;
+};
+
+const phaseLabels: Record<Frame["phase"], string> = {
+  before: "执行前",
+  after: "执行后",
+};
+
+// 每个步骤执行前后的截图组成的时间线，可以拖动查看浏览器在各个步骤时的样子
+export default function ScreenshotTimeline({ runId, steps }: ScreenshotTimelineProps) {
+  const frames = useMemo(
+    () =>
+      steps.flatMap((step): Frame[] => {
+        if (!step.stepNumber) return [];
+        return [
+          ...(step.hasBeforeScreenshot
+            ? [{ stepNumber: step.stepNumber, phase: "before" as const, url: step.beforeUrl, step }]
+            : []),
+          ...(step.hasScreenshot
+            ? [{ stepNumber: step.stepNumber, phase: "after" as const, url: step.url, step }]
+            : []),
+        ];
+      }),
+    [steps]
+  );
+
+  // 没有手动拖动时跟随最新的截图
+  const [selected, setSelected] = useState<number | null>(null);
+  const index = selected ?? frames.length - 1;
+
+  useEffect(() => {
+    if (selected !== null && selected >= frames.length) {
+      setSelected(null);
+    }
+  }, [frames.length, selected]);
+
+  if (frames.length === 0) {
+    return (
+      <div className="w-full h-full border border-gray-200 rounded-lg flex items-center justify-center">
+        <p className="text-gray-500 text-center">暂无截图</p>
+      </div>
+    );
+  }
+
+  const frame = frames[index];
+  const select = (next: number) =>
+    setSelected(next >= frames.length - 1 ? null : Math.max(0, next));
+
+  return (
+    <div className="w-full space-y-2 font-ppsupply">
+      <div className="relative w-full aspect-video border border-gray-200 rounded-lg overflow-hidden bg-gray-50">
+        <Image
+          src={`/api/runs/${runId}/screenshots/${frame.stepNumber}?phase=${frame.phase}`}
+          alt={`Step ${frame.stepNumber} ${phaseLabels[frame.phase]}`}
+          fill
+          unoptimized
+          className="object-contain"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => select(index - 1)}
+          disabled={index === 0}
+          className="px-2 py-1 text-sm bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          ‹
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={index}
+          onChange={(e) => select(Number(e.target.value))}
+          className="flex-1"
+        />
+        <button
+          onClick={() => select(index + 1)}
+          disabled={index === frames.length - 1}
+          className="px-2 py-1 text-sm bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          ›
+        </button>
+      </div>
+      <div className="text-sm text-gray-600">
+        <p>
+          <span className="font-semibold">
+            Step {frame.stepNumber} · {phaseLabels[frame.phase]}
+          </span>{" "}
+          {frame.step.text}
+        </p>
+        {frame.url && <p className="text-xs text-gray-500 break-all">{frame.url}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,101 @@
 'use client';
 
 import { AnimatePresence, motion } from 'framer-motion';
-import { useEffect } from 'react';
-import { Message } from './ChatBlock';
+import { useCallback, useEffect, useState } from 'react';
 import { useWindowSize } from "usehooks-ts";
 
+export interface RunSummary {
+  runId: string;
+  goal: string;
+  status:
+    | "running"
+    | "paused_for_user"
+    | "done"
+    | "error"
+    | "interrupted"
+    | "stopped";
+  createdAt: number;
+  updatedAt: number;
+  stepCount: number;
+}
+
 interface SidebarProps {
-  messages: Message[];
-  input: string;
-  setInput: (value: string) => void;
-  handleSubmit: (e: React.FormEvent) => void;
   isOpen: boolean;
   onToggle: () => void;
+  onSelectRun: (runId: string) => void;
+  activeRunId?: string | null;
 }
 
-export default function Sidebar({ 
-  messages, 
-  input, 
-  setInput, 
-  handleSubmit, 
+const statusLabels: Record<RunSummary["status"], string> = {
+  running: "运行中",
+  paused_for_user: "等待用户",
+  done: "已完成",
+  error: "出错",
+  interrupted: "已中断",
+  stopped: "已停止",
+};
+
+const statusStyles: Record<RunSummary["status"], string> = {
+  running: "bg-blue-100 text-blue-700",
+  paused_for_user: "bg-orange-100 text-orange-700",
+  done: "bg-green-100 text-green-700",
+  error: "bg-red-100 text-red-700",
+  interrupted: "bg-yellow-100 text-yellow-700",
+  stopped: "bg-orange-100 text-orange-700",
+};
+
+export default function Sidebar({
   isOpen,
-  onToggle 
+  onToggle,
+  onSelectRun,
+  activeRunId,
 }: SidebarProps) {
   const { width } = useWindowSize();
   const isMobile = width ? width < 768 : false;
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/runs');
+      const data = await response.json();
+      if (data.success) {
+        setRuns(data.runs);
+      }
+    } catch (error) {
+      console.error('Failed to load run history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const deleteRun = useCallback(async (runId: string) => {
+    try {
+      const response = await fetch(`/api/runs/${runId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.success) {
+        setRuns((prev) => prev.filter((run) => run.runId !== runId));
+      }
+    } catch (error) {
+      console.error('Failed to delete run:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRuns();
+    }
+  }, [isOpen, loadRuns]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Handle CMD+K shortcut on desktop
-      if (!isMobile && (e.metaKey || e.ctrlKey) && e.key === 'k') {
+      // Handle CMD+B shortcut on desktop
+      if (!isMobile && (e.metaKey || e.ctrlKey) && e.key === 'b') {
         e.preventDefault();
         onToggle();
       }
-      
+
       // Handle Escape on mobile when sidebar is open
       if (isMobile && isOpen && e.key === 'Escape') {
         e.preventDefault();
@@ -63,64 +126,63 @@ export default function Sidebar({
           <div className="flex flex-col h-full">
             <div className="p-4 border-b border-gray-200">
               <div className="flex items-center justify-between">
-                <h2 className="text-lg font-ppneue text-gray-900">Chat History</h2>
+                <h2 className="text-lg font-ppneue text-gray-900">Run History</h2>
                 {!isMobile && (
                   <kbd className="px-2 py-1 text-xs font-semibold text-gray-500 bg-gray-100 rounded-md">
-                    ⌘K
+                    ⌘B
                   </kbd>
                 )}
               </div>
             </div>
-            
+
             <div className="flex-1 overflow-y-auto p-6">
+              {!isLoading && runs.length === 0 && (
+                <p className="text-sm text-gray-500 font-ppsupply">暂无运行记录</p>
+              )}
               <AnimatePresence mode="popLayout">
-                {messages.map(message => (
+                {runs.map(run => (
                   <motion.div
-                    key={message.id}
+                    key={run.runId}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, y: -20 }}
-                    className={`mb-6 ${
-                      message.role === 'user' ? 'text-right' : 'text-left'
+                    className={`mb-4 p-4 rounded-xl border font-ppsupply cursor-pointer transition-colors ${
+                      run.runId === activeRunId
+                        ? 'border-[#FF3B00]'
+                        : 'border-gray-200 hover:border-gray-300'
                     }`}
+                    onClick={() => onSelectRun(run.runId)}
                   >
-                    <motion.div
-                      className={`inline-block p-4 rounded-xl font-ppsupply ${
-                        message.role === 'user'
-                          ? 'bg-[#FF3B00] text-white'
-                          : 'bg-gray-100 text-gray-900'
-                      }`}
-                      layoutId={`message-${message.id}`}
-                    >
-                      {message.content}
-                    </motion.div>
+                    <div className="flex justify-between items-start gap-2">
+                      <p className="text-gray-900 line-clamp-2">{run.goal}</p>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteRun(run.runId);
+                        }}
+                        disabled={
+                          run.status === 'running' || run.status === 'paused_for_user'
+                        }
+                        className="text-gray-400 hover:text-gray-900 disabled:opacity-30 disabled:hover:text-gray-400"
+                        title="删除"
+                      >
+                        ×
+                      </button>
+                    </div>
+                    <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+                      <span className={`px-2 py-0.5 rounded ${statusStyles[run.status]}`}>
+                        {statusLabels[run.status]}
+                      </span>
+                      <span>{run.stepCount} steps</span>
+                      <span>{new Date(run.updatedAt).toLocaleString()}</span>
+                    </div>
                   </motion.div>
                 ))}
               </AnimatePresence>
             </div>
-
-            <motion.form 
-              onSubmit={handleSubmit} 
-              className="p-6 border-t border-gray-200 relative"
-            >
-              <input
-                type="text"
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                className="w-full px-4 py-3 rounded-lg border border-gray-300 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-[#FF3B00] focus:border-transparent font-ppsupply"
-                placeholder="Type a message..."
-              />
-              {!isMobile && (
-                <div className="absolute right-8 bottom-9 flex items-center gap-1 text-xs text-gray-400">
-                  <kbd className="px-1.5 py-0.5 bg-gray-100 rounded-md">⌘</kbd>
-                  <span>+</span>
-                  <kbd className="px-1.5 py-0.5 bg-gray-100 rounded-md">↵</kbd>
-                </div>
-              )}
-            </motion.form>
           </div>
         </motion.div>
       )}
     </AnimatePresence>
   );
-} 
\ No newline at end of file
+}
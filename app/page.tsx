@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { AnimatePresence } from "framer-motion";
 import ChatFeed from "./components/ChatFeed";
+import Sidebar from "./components/Sidebar";
 import AnimatedButton from "./components/AnimatedButton";
 import Image from "next/image";
 import posthog from "posthog-js";
@@ -21,6 +22,8 @@ const Tooltip = ({ children, text }: { children: React.ReactNode; text: string }
 export default function Home() {
   const [isChatVisible, setIsChatVisible] = useState(false);
   const [initialMessage, setInitialMessage] = useState("");
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -58,6 +61,7 @@ export default function Home() {
   const startChat = useCallback(
     (finalMessage: string) => {
       setInitialMessage(finalMessage);
+      setSelectedRunId(null);
       setIsChatVisible(true);
 
       try {
@@ -71,131 +75,154 @@ export default function Home() {
     [setInitialMessage, setIsChatVisible]
   );
 
+  const openRun = useCallback((runId: string) => {
+    setSelectedRunId(runId);
+    setIsChatVisible(true);
+  }, []);
+
+  const toggleSidebar = useCallback(() => {
+    setIsSidebarOpen((prev) => !prev);
+  }, []);
+
   return (
     <AnimatePresence mode="wait">
       {!isChatVisible ? (
-        <div className="min-h-screen bg-gray-50 flex flex-col">
-          {/* Top Navigation */}
-          <nav className="flex justify-between items-center px-8 py-4 bg-white border-b border-gray-200">
-            <div className="flex items-center gap-3">
-              <Image
-                src="/favicon.svg"
-                alt="Manus Lite"
-                className="w-8 h-8"
-                width={32}
-                height={32}
-              />
-              <span className="font-ppsupply text-gray-900">Manus Lite</span>
-            </div>
-            <div className="flex items-center gap-2">
-              {/* <a
-                href="https://github.com/browserbase/open-operator"
-                target="_blank" 
-                rel="noopener noreferrer"
-              >
-                <button className="h-fit flex items-center justify-center px-4 py-2 rounded-md bg-[#1b2128] hover:bg-[#1d232b] gap-1 text-sm font-medium text-white border border-pillSecondary transition-colors duration-200">
-                  <Image
-                    src="/github.svg"
-                    alt="GitHub"
-                    width={20}
-                    height={20}
-                    className="mr-2"
-                  />
-                  查看 GitHub
+        <div className="min-h-screen flex flex-row">
+          <Sidebar
+            isOpen={isSidebarOpen}
+            onToggle={toggleSidebar}
+            onSelectRun={openRun}
+          />
+          <div className="flex-1 min-h-screen bg-gray-50 flex flex-col">
+            {/* Top Navigation */}
+            <nav className="flex justify-between items-center px-8 py-4 bg-white border-b border-gray-200">
+              <div className="flex items-center gap-3">
+                <Image
+                  src="/favicon.svg"
+                  alt="Manus Lite"
+                  className="w-8 h-8"
+                  width={32}
+                  height={32}
+                />
+                <span className="font-ppsupply text-gray-900">Manus Lite</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={toggleSidebar}
+                  className="px-4 py-2 hover:bg-gray-100 text-gray-600 hover:text-gray-900 transition-colors rounded-md font-ppsupply text-sm"
+                >
+                  运行记录
                 </button>
-              </a> */}
-            </div>
-          </nav>
-
-          {/* Main Content */}
-          <main className="flex-1 flex flex-col items-center justify-center p-6">
-            <div className="w-full max-w-[640px] bg-white border border-gray-200 shadow-sm">
-              <div className="w-full h-12 bg-white border-b border-gray-200 flex items-center px-4">
-                <div className="flex items-center gap-2">
-                  <Tooltip text="为什么要关闭这个？">
-                    <div className="w-3 h-3 rounded-full bg-red-500" />
-                  </Tooltip>
-                  <Tooltip text="向🅱️rowserbase开发者致敬">
-                    <div className="w-3 h-3 rounded-full bg-yellow-500" />
-                  </Tooltip>
-                  <Tooltip text="@pk_iv 到此一游">
-                    <div className="w-3 h-3 rounded-full bg-green-500" />
-                  </Tooltip>
-                </div>
+                {/* <a
+                  href="https://github.com/browserbase/open-operator"
+                  target="_blank" 
+                  rel="noopener noreferrer"
+                >
+                  <button className="h-fit flex items-center justify-center px-4 py-2 rounded-md bg-[#1b2128] hover:bg-[#1d232b] gap-1 text-sm font-medium text-white border border-pillSecondary transition-colors duration-200">
+                    <Image
+                      src="/github.svg"
+                      alt="GitHub"
+                      width={20}
+                      height={20}
+                      className="mr-2"
+                    />
+                    查看 GitHub
+                  </button>
+                </a> */}
               </div>
+            </nav>
 
-              <div className="p-8 flex flex-col items-center gap-8">
-                <div className="flex flex-col items-center gap-3">
-                  <h1 className="text-2xl font-ppneue text-gray-900 text-center">
-                    Manus Lite
-                  </h1>
-                  <p className="text-base font-ppsupply text-gray-500 text-center">
-                    点击运行观看AI浏览网页
-                  </p>
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col items-center justify-center p-6">
+              <div className="w-full max-w-[640px] bg-white border border-gray-200 shadow-sm">
+                <div className="w-full h-12 bg-white border-b border-gray-200 flex items-center px-4">
+                  <div className="flex items-center gap-2">
+                    <Tooltip text="为什么要关闭这个？">
+                      <div className="w-3 h-3 rounded-full bg-red-500" />
+                    </Tooltip>
+                    <Tooltip text="向🅱️rowserbase开发者致敬">
+                      <div className="w-3 h-3 rounded-full bg-yellow-500" />
+                    </Tooltip>
+                    <Tooltip text="@pk_iv 到此一游">
+                      <div className="w-3 h-3 rounded-full bg-green-500" />
+                    </Tooltip>
+                  </div>
                 </div>
 
-                <form
-                  onSubmit={(e) => {
-                    e.preventDefault();
-                    const formData = new FormData(e.currentTarget);
-                    const input = e.currentTarget.querySelector(
-                      'input[name="message"]'
-                    ) as HTMLInputElement;
-                    const message = (formData.get("message") as string).trim();
-                    const finalMessage = message || input.placeholder;
-                    startChat(finalMessage);
-                  }}
-                  className="w-full max-w-[720px] flex flex-col items-center gap-3"
-                >
-                  <div className="relative w-full">
-                    <input
-                      name="message"
-                      type="text"
-                      placeholder="英伟达股票的价格是多少？"
-                      className="w-full px-4 py-3 pr-[100px] border border-gray-200 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-[#FF3B00] focus:border-transparent font-ppsupply"
-                    />
-                    <AnimatedButton type="submit">运行</AnimatedButton>
+                <div className="p-8 flex flex-col items-center gap-8">
+                  <div className="flex flex-col items-center gap-3">
+                    <h1 className="text-2xl font-ppneue text-gray-900 text-center">
+                      Manus Lite
+                    </h1>
+                    <p className="text-base font-ppsupply text-gray-500 text-center">
+                      点击运行观看AI浏览网页
+                    </p>
                   </div>
-                </form>
-                <div className="grid grid-cols-2 gap-3 w-full">
-                  <button
-                    onClick={() =>
-                      startChat(
-                        "小红书最流行的趋势？"
-                      )
-                    }
-                    className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
-                  >
-                    小红书最流行的趋势？
-                  </button>
-                  <button
-                    onClick={() =>
-                      startChat("中国最受欢迎的编程语言是什么？")
-                    }
-                    className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
-                  >
-                    中国最受欢迎的编程语言是什么？
-                  </button>
-                  <button
-                    onClick={() => startChat("Stephen Curry的场均得分是多少？")}
-                    className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
-                  >
-                    库里的场均得分是多少？
-                  </button>
-                  <button
-                    onClick={() => startChat("How much is NVIDIA stock?")}
-                    className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
+
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      const formData = new FormData(e.currentTarget);
+                      const input = e.currentTarget.querySelector(
+                        'input[name="message"]'
+                      ) as HTMLInputElement;
+                      const message = (formData.get("message") as string).trim();
+                      const finalMessage = message || input.placeholder;
+                      startChat(finalMessage);
+                    }}
+                    className="w-full max-w-[720px] flex flex-col items-center gap-3"
                   >
-                    英伟达股票价格是多少？
-                  </button>
+                    <div className="relative w-full">
+                      <input
+                        name="message"
+                        type="text"
+                        placeholder="英伟达股票的价格是多少？"
+                        className="w-full px-4 py-3 pr-[100px] border border-gray-200 text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-[#FF3B00] focus:border-transparent font-ppsupply"
+                      />
+                      <AnimatedButton type="submit">运行</AnimatedButton>
+                    </div>
+                  </form>
+                  <div className="grid grid-cols-2 gap-3 w-full">
+                    <button
+                      onClick={() =>
+                        startChat(
+                          "小红书最流行的趋势？"
+                        )
+                      }
+                      className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
+                    >
+                      小红书最流行的趋势？
+                    </button>
+                    <button
+                      onClick={() =>
+                        startChat("中国最受欢迎的编程语言是什么？")
+                      }
+                      className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
+                    >
+                      中国最受欢迎的编程语言是什么？
+                    </button>
+                    <button
+                      onClick={() => startChat("Stephen Curry的场均得分是多少？")}
+                      className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
+                    >
+                      库里的场均得分是多少？
+                    </button>
+                    <button
+                      onClick={() => startChat("How much is NVIDIA stock?")}
+                      className="p-3 text-sm text-gray-600 border border-gray-200 hover:border-[#FF3B00] hover:text-[#FF3B00] transition-colors font-ppsupply text-left"
+                    >
+                      英伟达股票价格是多少？
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          </main>
+            </main>
+          </div>
         </div>
       ) : (
         <ChatFeed
-          initialMessage={initialMessage}
+          initialMessage={selectedRunId ? undefined : initialMessage}
+          runId={selectedRunId ?? undefined}
           onClose={() => setIsChatVisible(false)}
         />
       )}
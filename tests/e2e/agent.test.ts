@@ -0,0 +1,1484 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST as agentPOST } from "@/app/api/agent/route";
+import { POST as runPOST } from "@/app/api/agent/run/route";
+import { GET as runsGET } from "@/app/api/runs/route";
+import {
+  DELETE as runDELETE,
+  GET as runGET,
+  POST as resumePOST,
+} from "@/app/api/runs/[runId]/route";
+import { GET as exportGET } from "@/app/api/runs/[runId]/export/route";
+import { GET as screenshotGET } from "@/app/api/runs/[runId]/screenshots/[stepNumber]/route";
+import * as agentCore from "@/app/api/agentCore";
+import { getRun } from "@/app/api/agentRunner";
+import { CLIENT_ID_COOKIE } from "@/app/api/clientId";
+import {
+  closeStagehandInstance,
+  findActivePage,
+  getStagehandInstance,
+} from "@/app/api/stagehandManager";
+import { POST as inputPOST } from "@/app/api/session/[sessionId]/input/route";
+import { GET as screencastGET } from "@/app/api/session/[sessionId]/screencast/route";
+import { POST as sessionPOST } from "@/app/api/session/route";
+import { nvidiaScript } from "../fixtures/nvidiaScript";
+import { getMockCalls, getRemainingMockOutputs, setMockScript } from "../mockModel";
+
+function jsonRequest(url: string, body: unknown, cookie?: string) {
+  return new Request(`http://localhost${url}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// 测试中创建会话的客户端
+const CLIENT_COOKIE = `${CLIENT_ID_COOKIE}=test-client`;
+
+// 完成的运行会保留浏览器会话，每个测试结束后关闭，避免占满会话名额
+const createdSessions: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(createdSessions.splice(0).map(closeStagehandInstance));
+});
+
+async function createSession(): Promise<string> {
+  const response = await sessionPOST(jsonRequest("/api/session", {}, CLIENT_COOKIE));
+  const { sessionId } = await response.json();
+  createdSessions.push(sessionId);
+  return sessionId;
+}
+
+async function callAgent(body: Record<string, unknown>) {
+  const response = await agentPOST(jsonRequest("/api/agent", body));
+  return response.json();
+}
+
+async function readEvents(response: Response) {
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter((chunk) => chunk.startsWith("data: "))
+    .map((chunk) => JSON.parse(chunk.slice("data: ".length)));
+}
+
+describe("/api/agent", () => {
+  beforeEach(() => {
+    setMockScript("agent", nvidiaScript);
+  });
+
+  it("runs a task step by step and answers with citations", async () => {
+    const sessionId = await createSession();
+    const goal = "英伟达股票的价格是多少？";
+
+    const start = await callAgent({ action: "START", goal, sessionId });
+    expect(start.result).toMatchObject({
+      tool: "GOTO",
+      instruction: "https://stocks.example/",
+    });
+
+    let steps = start.steps;
+    for (;;) {
+      const next = await callAgent({
+        action: "GET_NEXT_STEP",
+        goal,
+        sessionId,
+        previousSteps: steps,
+      });
+      steps = next.steps;
+
+      if (next.done) {
+        expect(next.answer.citations[0]).toMatchObject({
+          url: "https://stocks.example/quote/NVDA",
+          stepNumber: 3,
+        });
+        break;
+      }
+
+      const executed = await callAgent({
+        action: "EXECUTE_STEP",
+        sessionId,
+        step: next.result,
+        stepNumber: steps.length,
+      });
+      expect(executed.success).toBe(true);
+    }
+
+    expect(steps.map((step: { tool: string }) => step.tool)).toEqual([
+      "GOTO",
+      "ACT",
+      "EXTRACT",
+      "CLOSE",
+    ]);
+    expect(getRemainingMockOutputs("agent")).toHaveLength(0);
+
+    // 提取结果作为记忆进入了后续的规划提示词
+    const closePrompt = JSON.stringify(getMockCalls("agent")[4].prompt);
+    expect(closePrompt).toContain("$123.45");
+    expect(closePrompt).toContain("[步骤 3]");
+  });
+
+  it("rejects requests without a sessionId", async () => {
+    const response = await agentPOST(jsonRequest("/api/agent", { action: "START", goal: "x" }));
+    expect(response.status).toBe(400);
+  });
+
+  it("refuses to run steps that need approval", async () => {
+    const sessionId = await createSession();
+
+    // 起始页面不在允许的域名中时不导航
+    const start = await agentPOST(
+      jsonRequest("/api/agent", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+        allowedDomains: ["example.org"],
+      })
+    );
+    expect(start.status).toBe(403);
+    expect((await start.json()).approvalRequired).toEqual(["external_domain"]);
+    expect(findActivePage(sessionId)).toBeUndefined();
+
+    const executed = await agentPOST(
+      jsonRequest("/api/agent", {
+        action: "EXECUTE_STEP",
+        sessionId,
+        step: {
+          text: "购买股票",
+          reasoning: "用户想买入",
+          tool: "ACT",
+          instruction: "click the Buy button",
+        },
+        stepNumber: 2,
+      })
+    );
+    expect(executed.status).toBe(403);
+    expect((await executed.json()).approvalRequired).toEqual(["purchase"]);
+    expect(findActivePage(sessionId)).toBeUndefined();
+  });
+
+  it("plans the last message of a conversation and shows the earlier ones", async () => {
+    setMockScript("agent", [nvidiaScript[2]]);
+    const sessionId = await createSession();
+
+    const next = await callAgent({
+      action: "GET_NEXT_STEP",
+      sessionId,
+      messages: [
+        { role: "user", content: "英伟达股票的价格是多少？" },
+        { role: "user", content: "再看看市场新闻" },
+      ],
+    });
+    expect(next.success).toBe(true);
+
+    const prompt = JSON.stringify(getMockCalls("agent")[0].prompt);
+    expect(prompt).toContain('帮助用户完成目标: \\"再看看市场新闻\\"');
+    expect(prompt).toContain("1. 英伟达股票的价格是多少？");
+
+    const invalid = await agentPOST(
+      jsonRequest("/api/agent", {
+        action: "GET_NEXT_STEP",
+        sessionId,
+        messages: [{ role: "assistant", content: "x" }],
+      })
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
+
+describe("/api/agent/run", () => {
+  beforeEach(() => {
+    setMockScript("agent", nvidiaScript);
+  });
+
+  it("streams the whole run from the server and records it", async () => {
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id");
+
+    // 截图和计划事件单独检查
+    const events = (await readEvents(response)).filter(
+      (event) => event.type !== "screenshot" && event.type !== "plan"
+    );
+    expect(events.map((event) => event.type)).toEqual([
+      "planned", "executing", "result",
+      "planned", "executing", "result",
+      "planned", "executing", "result",
+      "planned", "done",
+    ]);
+    expect(events[8].result).toContain("$123.45");
+    expect(events[10].answer.answer).toContain("123.45");
+
+    // 提取结果只在紧接着的一次规划中单独展示
+    const calls = getMockCalls("agent");
+    expect(JSON.stringify(calls[3].prompt)).not.toContain("上一步的提取或观察结果");
+    expect(JSON.stringify(calls[4].prompt)).toContain("上一步的提取或观察结果");
+
+    // 等待运行记录写入完成
+    await getRun(runId!)!.saving;
+    const { runs } = await (await runsGET()).json();
+    expect(runs.find((run: { runId: string }) => run.runId === runId)).toMatchObject({
+      status: "done",
+      stepCount: 4,
+    });
+  });
+
+  it("drops a finished run from memory and keeps serving it from the run store", async () => {
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    try {
+      await readEvents(response);
+      await getRun(runId)!.saving;
+      await new Promise((resolve) => setImmediate(resolve));
+      vi.advanceTimersByTime(60 * 1000);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(getRun(runId)).toBeUndefined();
+    const { run } = await (
+      await runGET(new Request(`http://localhost/api/runs/${runId}`), {
+        params: Promise.resolve({ runId }),
+      })
+    ).json();
+    expect(run).toMatchObject({ status: "done", steps: { length: 4 } });
+  });
+
+  it("plans subgoals up front, checks them off and revises the plan", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      nvidiaScript[2],
+      {
+        ...nvidiaScript[3],
+        planUpdate: { completed: [1], revisedSubgoals: ["提取英伟达的最新股价和涨跌幅"] },
+      },
+      ...nvidiaScript.slice(4),
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const events = await readEvents(response);
+
+    // 计划在第一个步骤之前制定
+    expect(events[0].type).toBe("plan");
+    expect(events[0].plan.subgoals.map((subgoal: { status: string }) => subgoal.status)).toEqual([
+      "pending",
+      "pending",
+    ]);
+    const actPrompt = JSON.stringify(getMockCalls("agent")[2].prompt);
+    expect(actPrompt).toContain("任务计划（第 1 版）");
+    expect(actPrompt).toContain("[ ] 1. 打开英伟达的行情页 ← 当前");
+
+    const closePrompt = JSON.stringify(getMockCalls("agent")[4].prompt);
+    expect(closePrompt).toContain("任务计划（第 2 版）");
+    expect(closePrompt).toContain("[x] 1. 打开英伟达的行情页");
+    expect(closePrompt).toContain("[ ] 2. 提取英伟达的最新股价和涨跌幅 ← 当前");
+
+    await getRun(runId)!.saving;
+    const { run } = await (
+      await runGET(new Request(`http://localhost/api/runs/${runId}`), {
+        params: Promise.resolve({ runId }),
+      })
+    ).json();
+    expect(run.plan).toMatchObject({
+      revision: 2,
+      subgoals: [
+        { id: 1, status: "done" },
+        { id: 2, description: "提取英伟达的最新股价和涨跌幅", status: "done" },
+      ],
+    });
+  });
+
+  it("continues the conversation with a follow-up in the same session", async () => {
+    const sessionId = await createSession();
+    const start = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = start.headers.get("X-Run-Id")!;
+    await readEvents(start);
+    await getRun(runId)!.saving;
+    const browser = await getStagehandInstance(sessionId);
+
+    setMockScript("agent", [
+      { subgoals: ["打开市场新闻", "提取新闻"] },
+      {
+        text: "打开市场新闻",
+        reasoning: "新闻页有最近的消息",
+        tool: "GOTO",
+        instruction: "https://stocks.example/news",
+      },
+      {
+        text: "提取新闻",
+        reasoning: "页面上是最近的新闻",
+        tool: "EXTRACT",
+        instruction: "extract the news",
+      },
+      { ...nvidiaScript[4] },
+      {
+        answer: "芯片股今天上涨，英伟达的股价是123.45美元。",
+        citations: [
+          { claim: "芯片股今天上涨", url: "https://stocks.example/news", stepNumber: 6 },
+        ],
+      },
+    ]);
+    const followUp = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "FOLLOW_UP",
+        runId,
+        goal: "再看看市场新闻",
+      })
+    );
+    expect(followUp.headers.get("X-Run-Id")).toBe(runId);
+
+    const events = (await readEvents(followUp)).filter(
+      (event) => event.type !== "screenshot"
+    );
+    // 新的目标有自己的计划
+    expect(events[0].plan.subgoals[0]).toMatchObject({ description: "打开市场新闻" });
+    expect(events[1].step).toMatchObject({ stepNumber: 5, tool: "GOTO" });
+    expect(events[events.length - 1].type).toBe("done");
+
+    // 沿用同一个浏览器，规划时能看到之前的目标、步骤和提取结果
+    expect(await getStagehandInstance(sessionId)).toBe(browser);
+    const prompt = JSON.stringify(getMockCalls("agent")[1].prompt);
+    expect(prompt).toContain("1. 英伟达股票的价格是多少？");
+    expect(prompt).toContain("$123.45");
+    expect(prompt).toContain("https://stocks.example/quote/NVDA");
+
+    await getRun(runId)!.saving;
+    const { runs } = await (await runsGET()).json();
+    expect(runs.find((run: { runId: string }) => run.runId === runId)).toMatchObject({
+      status: "done",
+      stepCount: 7,
+    });
+    expect(getRun(runId)!.turns).toMatchObject([
+      { goal: "英伟达股票的价格是多少？", startStepNumber: 1, answer: nvidiaScript[5] },
+      { goal: "再看看市场新闻", startStepNumber: 5 },
+    ]);
+
+    const missing = await runPOST(
+      jsonRequest("/api/agent/run", { action: "FOLLOW_UP", runId: "run-missing", goal: "x" })
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it("fans out subtasks to child runs in their own browsers and merges their extractions", async () => {
+    // 子运行依次进行，脚本输出按顺序回放
+    process.env.AGENT_MAX_PARALLEL_CHILDREN = "1";
+    try {
+      const childScript = (url: string, text: string, answer: string) => [
+        { url, reasoning: "直接打开目标页面" },
+        { subgoals: [text] },
+        { text, reasoning: "页面上有需要的信息", tool: "EXTRACT", instruction: text },
+        { text: "完成子任务", reasoning: "已经提取到信息", tool: "CLOSE", instruction: "" },
+        { answer, citations: [{ claim: answer, url, stepNumber: 2 }] },
+      ];
+      setMockScript("agent", [
+        nvidiaScript[0],
+        { subgoals: ["同时查询股价和新闻"] },
+        {
+          text: "同时查询股价和新闻",
+          reasoning: "两件事互不相关",
+          tool: "FAN_OUT",
+          instruction: "分别在两个浏览器中查询",
+          subtasks: ["提取英伟达的股价", "提取最新的市场新闻", "提取英伟达的股价"],
+        },
+        ...childScript("https://stocks.example/quote/NVDA", "提取英伟达的股价", "123.45美元"),
+        ...childScript("https://stocks.example/news", "提取最新的市场新闻", "芯片股今天上涨"),
+        { text: "汇总结果", reasoning: "子任务都已完成", tool: "CLOSE", instruction: "" },
+        {
+          answer: "英伟达的股价是123.45美元，芯片股今天上涨。",
+          citations: [{ claim: "芯片股今天上涨", url: "https://stocks.example/news", stepNumber: 2 }],
+        },
+      ]);
+      const sessionId = await createSession();
+      const response = await runPOST(
+        jsonRequest("/api/agent/run", {
+          action: "START",
+          goal: "英伟达的股价和今天的市场新闻",
+          sessionId,
+        })
+      );
+      const runId = response.headers.get("X-Run-Id")!;
+      const events = await readEvents(response);
+      expect(events[events.length - 1].type).toBe("done");
+      expect(getRemainingMockOutputs("agent")).toHaveLength(0);
+
+      // 重复的子任务只运行一次，子运行的事件转发给协调运行
+      expect(events.find((event) => event.type === "fan_out")).toEqual({
+        type: "fan_out",
+        stepNumber: 2,
+        subtasks: ["提取英伟达的股价", "提取最新的市场新闻"],
+      });
+      const childDone = events.filter(
+        (event) => event.type === "child" && event.event.type === "done"
+      );
+      expect(childDone.map((event) => event.index)).toEqual([0, 1]);
+      expect(childDone[0].runId).not.toBe(childDone[1].runId);
+
+      // 只有协调运行可以拆分子任务
+      const calls = getMockCalls("agent");
+      expect(JSON.stringify(calls[2].prompt)).toContain("FAN_OUT");
+      expect(JSON.stringify(calls[5].prompt)).not.toContain("FAN_OUT");
+
+      // 子运行的提取结果合并到协调运行的记忆中，最终答案可以引用
+      const run = getRun(runId)!;
+      expect(run.memory.map((entry) => [entry.stepNumber, entry.url])).toEqual([
+        [2, "https://stocks.example/quote/NVDA"],
+        [2, "https://stocks.example/news"],
+      ]);
+      expect(JSON.stringify(calls[13].prompt)).toContain("步骤 2 的并行子任务已结束");
+      expect(JSON.stringify(calls[14].prompt)).toContain("子任务 2（提取最新的市场新闻）");
+      expect(run.steps[1].result).toMatchObject([
+        { goal: "提取英伟达的股价", status: "done", answer: { answer: "123.45美元" } },
+        { goal: "提取最新的市场新闻", status: "done", answer: { answer: "芯片股今天上涨" } },
+      ]);
+
+      // 子运行结束后关闭自己的浏览器，不出现在运行列表中
+      for (const event of childDone) {
+        expect(findActivePage(getRun(event.runId)!.sessionId)).toBeUndefined();
+      }
+      await run.saving;
+      const { runs } = await (await runsGET()).json();
+      const listed = runs.map((summary: { runId: string }) => summary.runId);
+      expect(listed).toContain(runId);
+      expect(listed).not.toContain(childDone[0].runId);
+
+      // 删除协调运行时子运行的记录一并删除
+      await Promise.all(childDone.map((event) => getRun(event.runId)!.saving));
+      const deleted = await runDELETE(
+        new Request(`http://localhost/api/runs/${runId}`, { method: "DELETE" }),
+        { params: Promise.resolve({ runId }) }
+      );
+      expect(deleted.status).toBe(200);
+      for (const event of childDone) {
+        const child = await runGET(new Request(`http://localhost/api/runs/${event.runId}`), {
+          params: Promise.resolve({ runId: event.runId }),
+        });
+        expect(child.status).toBe(404);
+      }
+
+      const invalid = await runDELETE(
+        new Request("http://localhost/api/runs/..", { method: "DELETE" }),
+        { params: Promise.resolve({ runId: ".." }) }
+      );
+      expect(invalid.status).toBe(400);
+    } finally {
+      delete process.env.AGENT_MAX_PARALLEL_CHILDREN;
+    }
+  });
+
+  it("feeds a failed step back to the planner instead of ending the run", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "打开特斯拉的行情页",
+        reasoning: "先看特斯拉",
+        tool: "ACT",
+        instruction: "click the Tesla link",
+      },
+      ...nvidiaScript.slice(2),
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+
+    const events = await readEvents(response);
+    expect(events.find((event) => event.type === "failed")).toMatchObject({
+      stepNumber: 2,
+      error: { kind: "element_not_found", attempts: 1 },
+    });
+    expect(events[events.length - 1].type).toBe("done");
+
+    // 失败信息出现在紧接着的规划提示词中
+    const retryPrompt = JSON.stringify(getMockCalls("agent")[3].prompt);
+    expect(retryPrompt).toContain("步骤 2");
+    expect(retryPrompt).toContain("element_not_found");
+  });
+
+  it("shows the planner a page digest and resolves element indexes in ACT steps", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      { ...nvidiaScript[2], instruction: "click [1]" },
+      ...nvidiaScript.slice(3),
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const events = await readEvents(response);
+    expect(events[events.length - 1].type).toBe("done");
+
+    const promptText = JSON.stringify(getMockCalls("agent")[2].prompt);
+    expect(promptText).toContain("标题: Stocks Example");
+    expect(promptText).toContain("# Market overview");
+    expect(promptText).toContain('[1] link \\"NVIDIA\\"');
+    expect(promptText).toContain('[3] link \\"Market news\\"');
+
+    // 序号被替换为元素描述，Stagehand按描述点击
+    const run = getRun(runId)!;
+    expect(run.steps[1].instruction).toBe('click the link "NVIDIA"');
+    expect(run.steps[1].url).toBe("https://stocks.example/quote/NVDA");
+  });
+
+  it("runs direct action tools without calling Stagehand's act", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "输入股票代码",
+        reasoning: "搜索框在页面上",
+        tool: "TYPE",
+        instruction: 'input[name="q"]',
+        value: "NVDA",
+      },
+      { text: "按回车", reasoning: "提交搜索", tool: "PRESS_KEY", instruction: "", value: "Enter" },
+      { text: "向下滚动", reasoning: "查看更多内容", tool: "SCROLL", instruction: "", value: "down" },
+      { text: "点击不存在的元素", reasoning: "试一下", tool: "CLICK", instruction: "#missing" },
+      { text: "打开英伟达的行情页", reasoning: "摘要中有NVIDIA链接", tool: "CLICK", instruction: "[1]" },
+      ...nvidiaScript.slice(3),
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const page = (await getStagehandInstance(sessionId)).page as unknown as {
+      actions: { action: string; element: string; value?: string }[];
+    };
+
+    // 按回车可能提交表单，需要用户批准
+    await vi.waitFor(() => expect(getRun(runId)!.resolveApproval).toBeDefined());
+    expect(getRun(runId)!.steps[2].approval).toMatchObject({ reasons: ["form_submit"] });
+    await runPOST(
+      jsonRequest(
+        "/api/agent/run",
+        { action: "APPROVAL", runId, decision: { action: "approve" } },
+        CLIENT_COOKIE
+      )
+    );
+
+    const events = await readEvents(response);
+    expect(events[events.length - 1].type).toBe("done");
+    expect(events.find((event) => event.type === "failed")).toMatchObject({
+      stepNumber: 5,
+      error: { kind: "element_not_found" },
+    });
+
+    expect(page.actions).toEqual([
+      { action: "fill", element: 'textbox "Search symbol"', value: "NVDA" },
+      { action: "press", element: "page", value: "Enter" },
+      { action: "wheel", element: "page", value: "600" },
+      { action: "click", element: 'link "NVIDIA"' },
+    ]);
+
+    // 序号保留用于定位，后面附上元素描述
+    const run = getRun(runId)!;
+    expect(run.steps[5].instruction).toBe('[1] link "NVIDIA"');
+    expect(run.steps[5].url).toBe("https://stocks.example/quote/NVDA");
+  });
+
+  it("verifies page actions against their intent when enabled", async () => {
+    process.env.AGENT_VERIFY_STEPS = "true";
+    try {
+      setMockScript("agent", [
+        nvidiaScript[0],
+        nvidiaScript[1],
+        { text: "打开英伟达的行情页", reasoning: "摘要中有NVIDIA链接", tool: "CLICK", instruction: "[1]" },
+        { outcome: "success", explanation: "页面跳转到了英伟达的行情页" },
+        { text: "关闭弹窗", reasoning: "可能有弹窗", tool: "PRESS_KEY", instruction: "", value: "Escape" },
+        ...nvidiaScript.slice(3),
+      ]);
+      const sessionId = await createSession();
+      const response = await runPOST(
+        jsonRequest("/api/agent/run", {
+          action: "START",
+          goal: "英伟达股票的价格是多少？",
+          sessionId,
+        })
+      );
+      const runId = response.headers.get("X-Run-Id")!;
+      const events = await readEvents(response);
+      expect(events[events.length - 1].type).toBe("done");
+      expect(getRemainingMockOutputs("agent")).toHaveLength(0);
+
+      // 页面没有变化时不调用模型，直接判定为没有效果
+      expect(events.filter((event) => event.type === "verified")).toEqual([
+        {
+          type: "verified",
+          stepNumber: 2,
+          verdict: { outcome: "success", explanation: "页面跳转到了英伟达的行情页" },
+        },
+        {
+          type: "verified",
+          stepNumber: 3,
+          verdict: expect.objectContaining({ outcome: "no_op" }),
+        },
+      ]);
+      const verifierPrompt = JSON.stringify(getMockCalls("agent")[3].prompt);
+      expect(verifierPrompt).toContain("https://stocks.example/quote/NVDA");
+      expect(JSON.stringify(getMockCalls("agent")[4].prompt)).toContain("步骤 2 的验证结果: 成功");
+      expect(JSON.stringify(getMockCalls("agent")[5].prompt)).toContain("步骤 3 的验证结果: 没有效果");
+
+      // EXTRACT不需要验证
+      const run = getRun(runId)!;
+      expect(run.steps[1].verdict?.outcome).toBe("success");
+      expect(run.steps[2].verdict?.outcome).toBe("no_op");
+      expect(run.steps[3].verdict).toBeUndefined();
+    } finally {
+      delete process.env.AGENT_VERIFY_STEPS;
+    }
+  });
+
+  it("waits for structured conditions and tells the planner when one is not met", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      { text: "等待列表出现", reasoning: "确认页面已加载", tool: "WAIT", instruction: "text:NVIDIA" },
+      { text: "等待跳转", reasoning: "看看是否跳转", tool: "WAIT", instruction: "url:/quote/", value: "50" },
+      { text: "等待结果", reasoning: "等待加载", tool: "WAIT", instruction: "wait for the results to load" },
+      ...nvidiaScript.slice(2),
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const events = await readEvents(response);
+    expect(events[events.length - 1].type).toBe("done");
+
+    const results = events.filter((event) => event.type === "result");
+    expect(results.find((event) => event.stepNumber === 2).result).toMatchObject({
+      condition: "text:NVIDIA",
+      met: true,
+    });
+    expect(results.find((event) => event.stepNumber === 3).result).toMatchObject({
+      condition: "url:/quote/",
+      met: false,
+    });
+    expect(events.find((event) => event.type === "failed")).toMatchObject({
+      stepNumber: 4,
+      error: { kind: "unknown" },
+    });
+
+    const prompt = JSON.stringify(getMockCalls("agent")[4].prompt);
+    expect(prompt).toContain("步骤 3 的等待条件 url:/quote/");
+  });
+
+  it("stops the run when it reaches the step limit", async () => {
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+        limits: { maxSteps: 2 },
+      })
+    );
+
+    const events = await readEvents(response);
+    expect(events[events.length - 1]).toMatchObject({
+      type: "stopped",
+      reason: "max_steps",
+    });
+    expect(events.filter((event) => event.type === "planned")).toHaveLength(2);
+  });
+
+  it("keeps the session's owner when a stopped run continues with a follow-up", async () => {
+    const sessionId = await createSession();
+    const start = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+        limits: { maxSteps: 2 },
+      })
+    );
+    const runId = start.headers.get("X-Run-Id")!;
+    expect((await readEvents(start)).pop()).toMatchObject({ type: "stopped" });
+
+    // 停止运行时关闭了浏览器，后续请求在同一个会话中重新启动浏览器
+    setMockScript("agent", [
+      { subgoals: ["登录账号"] },
+      { text: "请登录", reasoning: "需要登录", tool: "USER_INPUT", instruction: "请登录账号" },
+    ]);
+    const followUp = await runPOST(
+      jsonRequest("/api/agent/run", { action: "FOLLOW_UP", runId, goal: "登录后再看看" })
+    );
+    const run = getRun(runId)!;
+    await vi.waitFor(() => expect(run.status).toBe("paused_for_user"));
+
+    const input = await inputPOST(
+      jsonRequest(
+        `/api/session/${sessionId}/input`,
+        { event: { type: "type", text: "abc" } },
+        CLIENT_COOKIE
+      ),
+      { params: Promise.resolve({ sessionId }) }
+    );
+    expect(input.status).toBe(200);
+    const screencast = await screencastGET(
+      new Request(`http://localhost/api/session/${sessionId}/screencast`, {
+        headers: { Cookie: CLIENT_COOKIE },
+      }),
+      { params: Promise.resolve({ sessionId }) }
+    );
+    expect(screencast.status).toBe(200);
+    await screencast.body?.cancel();
+
+    await runPOST(jsonRequest("/api/agent/run", { action: "CANCEL", runId }, CLIENT_COOKIE));
+    expect((await readEvents(followUp)).pop()).toMatchObject({ type: "stopped" });
+  });
+
+  it("resumes a stopped run in a new session from where it left off", async () => {
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId: await createSession(),
+        limits: { maxSteps: 2 },
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    await readEvents(response);
+
+    const resume = (sessionId: string) =>
+      resumePOST(jsonRequest(`/api/runs/${runId}`, { sessionId, limits: { maxSteps: 10 } }), {
+        params: Promise.resolve({ runId }),
+      });
+    const sessionId = await createSession();
+    const resumed = await resume(sessionId);
+    expect(resumed.headers.get("X-Run-Id")).toBe(runId);
+
+    // 恢复后先回到之前所在的页面，接着规划第3步
+    const events = (await readEvents(resumed)).filter(
+      (event) => event.type !== "screenshot"
+    );
+    expect(events[0].step).toMatchObject({ stepNumber: 3, tool: "EXTRACT" });
+    expect(events[events.length - 1].type).toBe("done");
+    expect(events[events.length - 1].answer.answer).toContain("123.45");
+
+    await getRun(runId)!.saving;
+    const { run } = await (
+      await runGET(new Request(`http://localhost/api/runs/${runId}`), {
+        params: Promise.resolve({ runId }),
+      })
+    ).json();
+    expect(run).toMatchObject({ status: "done", sessionId, steps: { length: 4 } });
+
+    // 已完成的运行和不存在的运行不能恢复
+    expect((await resume(await createSession())).status).toBe(409);
+    const missing = await resumePOST(
+      jsonRequest("/api/runs/run-missing", { sessionId: await createSession() }),
+      { params: Promise.resolve({ runId: "run-missing" }) }
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it("warns the planner about a loop and stops if it keeps looping", async () => {
+    const extract = nvidiaScript[3];
+    setMockScript("agent", [nvidiaScript[0], nvidiaScript[1], ...Array(5).fill(extract)]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+
+    const events = await readEvents(response);
+    expect(events.find((event) => event.type === "warning")).toMatchObject({
+      stepNumber: 4,
+    });
+    expect(events[events.length - 1]).toMatchObject({
+      type: "stopped",
+      reason: "loop",
+    });
+
+    // 警告出现在紧接着的规划提示词中
+    const warnedPrompt = JSON.stringify(getMockCalls("agent")[5].prompt);
+    expect(warnedPrompt).toContain("相同的操作");
+  });
+
+  it("rejects invalid limits", async () => {
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "x",
+        sessionId,
+        limits: { maxSteps: -1 },
+      })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects a missing or blank goal", async () => {
+    const sessionId = await createSession();
+    for (const goal of [123, "   "]) {
+      const response = await runPOST(
+        jsonRequest("/api/agent/run", { action: "START", goal, sessionId })
+      );
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("waits for the user to approve a risky step and records the decision", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "购买英伟达股票",
+        reasoning: "用户想买入",
+        tool: "ACT",
+        instruction: "click the NVIDIA link and buy 10 shares",
+      },
+      nvidiaScript[4],
+      nvidiaScript[5],
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "买入英伟达股票",
+        sessionId,
+        limits: { maxDurationMs: 1000 },
+      })
+    );
+    const run = getRun(response.headers.get("X-Run-Id")!)!;
+
+    // 等待审批的时间不计入运行时间上限
+    await vi.waitFor(() => expect(run.resolveApproval).toBeDefined());
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    const decided = await runPOST(
+      jsonRequest(
+        "/api/agent/run",
+        {
+          action: "APPROVAL",
+          runId: run.runId,
+          decision: { action: "reject", comment: "不要下单" },
+        },
+        CLIENT_COOKIE
+      )
+    );
+    expect(decided.status).toBe(200);
+
+    const events = await readEvents(response);
+    expect(events.find((event) => event.type === "approval_required")).toMatchObject({
+      stepNumber: 2,
+      reasons: ["purchase"],
+    });
+    expect(run.steps[1]).toMatchObject({
+      approval: { status: "rejected", reasons: ["purchase"], comment: "不要下单" },
+    });
+    expect(run.steps[1].result).toBeUndefined();
+    expect(events[events.length - 1].type).toBe("done");
+
+    // 拒绝的决定出现在紧接着的规划提示词中
+    const nextPrompt = JSON.stringify(getMockCalls("agent")[3].prompt);
+    expect(nextPrompt).toContain("用户拒绝执行步骤 2");
+    expect(nextPrompt).toContain("buy 10 shares) [用户拒绝执行，该步骤没有发生]");
+    const answerPrompt = JSON.stringify(getMockCalls("agent")[4].prompt);
+    expect(answerPrompt).toContain("使用工具: ACT) [用户拒绝执行，该步骤没有发生]");
+  });
+
+  it("pauses for the user and passes their reply to the planner", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "请输入短信验证码",
+        reasoning: "登录需要验证码",
+        tool: "USER_INPUT",
+        instruction: "请输入收到的短信验证码",
+      },
+      nvidiaScript[4],
+      nvidiaScript[5],
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const run = getRun(runId)!;
+
+    await vi.waitFor(() => expect(run.status).toBe("paused_for_user"));
+    await run.saving;
+    const { runs } = await (await runsGET()).json();
+    expect(runs.find((stored: { runId: string }) => stored.runId === runId).status).toBe(
+      "paused_for_user"
+    );
+
+    const resumed = await runPOST(
+      jsonRequest("/api/agent/run", { action: "RESUME", runId, reply: "123456" }, CLIENT_COOKIE)
+    );
+    expect(resumed.status).toBe(200);
+
+    const events = await readEvents(response);
+    expect(events.find((event) => event.type === "paused")).toMatchObject({
+      pause: { requestedBy: "agent", stepNumber: 2 },
+    });
+    expect(events.find((event) => event.type === "resumed")).toMatchObject({
+      reply: "123456",
+    });
+    expect(events[events.length - 1].type).toBe("done");
+
+    const nextPrompt = JSON.stringify(getMockCalls("agent")[3].prompt);
+    expect(nextPrompt).toContain("用户回复: 123456");
+  });
+
+  it("forwards the user's input to the browser only while the run waits for them", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "请完成验证",
+        reasoning: "页面出现了验证码",
+        tool: "USER_INPUT",
+        instruction: "请在浏览器中完成验证码",
+      },
+      nvidiaScript[4],
+      nvidiaScript[5],
+    ]);
+    const sessionId = await createSession();
+    const sendInput = (event: unknown, cookie = CLIENT_COOKIE) =>
+      inputPOST(jsonRequest(`/api/session/${sessionId}/input`, { event }, cookie), {
+        params: Promise.resolve({ sessionId }),
+      });
+
+    expect((await sendInput({ type: "click", x: 10, y: 20 })).status).toBe(409);
+
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const run = getRun(runId)!;
+    await vi.waitFor(() => expect(run.status).toBe("paused_for_user"));
+
+    expect((await sendInput({ type: "click", x: 10, y: 20 })).status).toBe(200);
+    expect((await sendInput({ type: "type", text: "abc" })).status).toBe(200);
+    expect((await sendInput({ type: "key", key: "Enter" })).status).toBe(200);
+    expect((await sendInput({ type: "key", key: "F13" })).status).toBe(400);
+    // 其他客户端不能操作这个会话的浏览器
+    expect(
+      (await sendInput({ type: "type", text: "x" }, `${CLIENT_ID_COOKIE}=other-client`)).status
+    ).toBe(403);
+    // 没有创建者的会话谁都不能操作
+    const ownerless = await inputPOST(
+      jsonRequest("/api/session/local-unknown/input", { event: { type: "type", text: "x" } }),
+      { params: Promise.resolve({ sessionId: "local-unknown" }) }
+    );
+    expect(ownerless.status).toBe(403);
+    const malformed = await inputPOST(
+      new Request(`http://localhost/api/session/${sessionId}/input`, {
+        method: "POST",
+        headers: { Cookie: CLIENT_COOKIE },
+        body: "{",
+      }),
+      { params: Promise.resolve({ sessionId }) }
+    );
+    expect(malformed.status).toBe(400);
+
+    const page = (await getStagehandInstance(sessionId)).page as unknown as {
+      inputEvents: { method: string; params: Record<string, unknown> }[];
+    };
+    expect(page.inputEvents.map((event) => event.method)).toEqual([
+      "Input.dispatchMouseEvent",
+      "Input.dispatchMouseEvent",
+      "Input.insertText",
+      "Input.dispatchKeyEvent",
+      "Input.dispatchKeyEvent",
+    ]);
+    expect(page.inputEvents[0].params).toMatchObject({ type: "mousePressed", x: 10, y: 20 });
+    expect(page.inputEvents[2].params).toEqual({ text: "abc" });
+
+    await runPOST(jsonRequest("/api/agent/run", { action: "RESUME", runId }, CLIENT_COOKIE));
+    const events = await readEvents(response);
+    expect(events[events.length - 1].type).toBe("done");
+  });
+
+  it("cancels a paused run", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "请登录",
+        reasoning: "需要登录",
+        tool: "USER_INPUT",
+        instruction: "请登录账号",
+      },
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const run = getRun(runId)!;
+
+    await vi.waitFor(() => expect(run.status).toBe("paused_for_user"));
+
+    // 暂停中的运行仍占用会话，不能在同一个会话中再启动一个运行
+    const second = await runPOST(
+      jsonRequest("/api/agent/run", { action: "START", goal: "再看看市场新闻", sessionId })
+    );
+    expect(second.status).toBe(409);
+    // 后续请求和恢复运行也不能使用这个会话
+    const followUp = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "FOLLOW_UP",
+        runId: "run-other",
+        goal: "再看看市场新闻",
+        sessionId,
+      })
+    );
+    expect(followUp.status).toBe(409);
+    const resumed = await resumePOST(jsonRequest("/api/runs/run-other", { sessionId }), {
+      params: Promise.resolve({ runId: "run-other" }),
+    });
+    expect(resumed.status).toBe(409);
+    // 进行中的运行不能在另一个会话中恢复
+    const resumedActive = await resumePOST(
+      jsonRequest(`/api/runs/${runId}`, { sessionId: await createSession() }),
+      { params: Promise.resolve({ runId }) }
+    );
+    expect(resumedActive.status).toBe(409);
+
+    // 其他客户端和不带身份的请求都不能控制这个运行
+    const otherCancel = await runPOST(
+      jsonRequest(
+        "/api/agent/run",
+        { action: "CANCEL", runId },
+        `${CLIENT_ID_COOKIE}=other-client`
+      )
+    );
+    expect(otherCancel.status).toBe(403);
+    const anonymousSteer = await runPOST(
+      jsonRequest("/api/agent/run", { action: "STEER", runId, message: "x" })
+    );
+    expect(anonymousSteer.status).toBe(403);
+    expect(run.status).toBe("paused_for_user");
+
+    await runPOST(jsonRequest("/api/agent/run", { action: "CANCEL", runId }, CLIENT_COOKIE));
+
+    const events = await readEvents(response);
+    expect(events[events.length - 1]).toMatchObject({
+      type: "stopped",
+      reason: "cancelled",
+    });
+
+    // 已结束的运行不能再暂停
+    const paused = await runPOST(
+      jsonRequest("/api/agent/run", { action: "PAUSE", runId }, CLIENT_COOKIE)
+    );
+    expect(paused.status).toBe(409);
+  });
+
+  it("cancels a run while it is still choosing the starting page", async () => {
+    // 选择起始页面一直不返回，取消时不必等它结束
+    const selectStartingUrl = vi
+      .spyOn(agentCore, "selectStartingUrl")
+      .mockReturnValue(new Promise(() => {}));
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const run = getRun(runId)!;
+
+    try {
+      await vi.waitFor(() => expect(run.abortStep).toBeDefined());
+      await runPOST(jsonRequest("/api/agent/run", { action: "CANCEL", runId }, CLIENT_COOKIE));
+
+      const events = await readEvents(response);
+      expect(events[events.length - 1]).toMatchObject({
+        type: "stopped",
+        reason: "cancelled",
+      });
+      expect(run.steps).toHaveLength(0);
+    } finally {
+      selectStartingUrl.mockRestore();
+    }
+  });
+
+  it("does not execute a step cancelled while recording the page before it", async () => {
+    const runStagehand = agentCore.runStagehand;
+    const executeStep = vi.spyOn(agentCore, "executeStep");
+    let runId: string | undefined;
+    // 第二步执行前截图时取消，这时没有可以中止的操作
+    const screenshot = vi
+      .spyOn(agentCore, "runStagehand")
+      .mockImplementation(async (args) => {
+        if (args.method === "SCREENSHOT" && runId && getRun(runId)!.steps.length === 2) {
+          await runPOST(jsonRequest("/api/agent/run", { action: "CANCEL", runId }, CLIENT_COOKIE));
+        }
+        return runStagehand(args);
+      });
+    const sessionId = await createSession();
+
+    try {
+      const response = await runPOST(
+        jsonRequest("/api/agent/run", {
+          action: "START",
+          goal: "英伟达股票的价格是多少？",
+          sessionId,
+        })
+      );
+      runId = response.headers.get("X-Run-Id")!;
+
+      const events = await readEvents(response);
+      expect(events[events.length - 1]).toMatchObject({
+        type: "stopped",
+        reason: "cancelled",
+      });
+      expect(getRun(runId)!.steps[1]).toMatchObject({ tool: "ACT" });
+      expect(executeStep).not.toHaveBeenCalled();
+    } finally {
+      screenshot.mockRestore();
+      executeStep.mockRestore();
+    }
+  });
+
+  it("passes steering messages to the planner and stops an in-flight step at once", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "请登录",
+        reasoning: "需要登录",
+        tool: "USER_INPUT",
+        instruction: "请登录账号",
+      },
+      {
+        text: "等待行情刷新",
+        reasoning: "价格还在加载",
+        tool: "WAIT",
+        instruction: "20000",
+      },
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const run = getRun(runId)!;
+
+    await vi.waitFor(() => expect(run.status).toBe("paused_for_user"));
+    const steered = await runPOST(
+      jsonRequest("/api/agent/run", { action: "STEER", runId, message: "只看NVDA" }, CLIENT_COOKIE)
+    );
+    expect(steered.status).toBe(200);
+    await runPOST(jsonRequest("/api/agent/run", { action: "RESUME", runId }, CLIENT_COOKIE));
+
+    // 等待步骤正在执行时停止，不必等到20秒的WAIT结束
+    await vi.waitFor(() => expect(run.abortStep).toBeDefined());
+    expect(run.steps[2]).toMatchObject({ tool: "WAIT", steering: ["只看NVDA"] });
+    await runPOST(jsonRequest("/api/agent/run", { action: "CANCEL", runId }, CLIENT_COOKIE));
+
+    const events = await readEvents(response);
+    expect(events.find((event) => event.type === "steered")).toMatchObject({
+      message: "只看NVDA",
+    });
+    expect(events[events.length - 1]).toMatchObject({
+      type: "stopped",
+      reason: "cancelled",
+    });
+    const steeredPrompt = JSON.stringify(getMockCalls("agent")[3].prompt);
+    expect(steeredPrompt).toContain("用户补充指令: 只看NVDA");
+    expect(findActivePage(sessionId)).toBeUndefined();
+
+    const late = await runPOST(
+      jsonRequest("/api/agent/run", { action: "STEER", runId, message: "x" }, CLIENT_COOKIE)
+    );
+    expect(late.status).toBe(409);
+  });
+
+  it("follows links into new tabs and switches between tabs", async () => {
+    setMockScript("agent", [
+      nvidiaScript[0],
+      nvidiaScript[1],
+      {
+        text: "打开市场新闻",
+        reasoning: "新闻在新标签页中打开",
+        tool: "ACT",
+        instruction: "click the Market news link",
+      },
+      {
+        text: "提取新闻",
+        reasoning: "新标签页显示了新闻",
+        tool: "EXTRACT",
+        instruction: "extract the headline",
+      },
+      {
+        text: "回到行情首页",
+        reasoning: "第一个标签页是行情首页",
+        tool: "SWITCH_TAB",
+        instruction: "1",
+      },
+      {
+        text: "关闭新闻标签页",
+        reasoning: "不再需要新闻",
+        tool: "CLOSE_TAB",
+        instruction: "2",
+      },
+      nvidiaScript[4],
+      { answer: "芯片股今天上涨。", citations: [] },
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "今天的市场新闻是什么？",
+        sessionId,
+      })
+    );
+    const run = getRun(response.headers.get("X-Run-Id")!)!;
+
+    const events = await readEvents(response);
+    expect(events[events.length - 1].type).toBe("done");
+
+    // 新标签页自动成为当前标签页，提示词中列出了所有标签页
+    const extractPrompt = JSON.stringify(getMockCalls("agent")[3].prompt);
+    expect(extractPrompt).toContain("当前打开的标签页");
+    expect(extractPrompt).toContain("https://stocks.example/news (当前)");
+    expect(run.memory[0]).toMatchObject({
+      url: "https://stocks.example/news",
+    });
+    expect(run.steps[3].url).toBe("https://stocks.example/");
+    expect(run.steps[4].result).toEqual([
+      {
+        index: 1,
+        url: "https://stocks.example/",
+        title: "Stocks Example",
+        active: true,
+      },
+    ]);
+  });
+
+  it("extracts typed data with a schema from the planner", async () => {
+    const schema = JSON.stringify({
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          price: { type: "number" },
+          url: { type: "string" },
+        },
+        required: ["name", "price"],
+      },
+    });
+    setMockScript("agent", [
+      { url: "https://stocks.example/quotes", reasoning: "行情列表页" },
+      { subgoals: ["提取所有股票的价格"] },
+      {
+        text: "提取所有股票",
+        reasoning: "先试试简单的schema",
+        tool: "EXTRACT",
+        instruction: "extract all quotes",
+        schema: "{not json",
+      },
+      {
+        text: "提取所有股票",
+        reasoning: "列表页有所有股票的价格",
+        tool: "EXTRACT",
+        instruction: "extract all quotes",
+        schema,
+      },
+      nvidiaScript[4],
+      nvidiaScript[5],
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "列出所有股票的价格",
+        sessionId,
+      })
+    );
+    const run = getRun(response.headers.get("X-Run-Id")!)!;
+
+    const events = await readEvents(response);
+    expect(events.find((event) => event.type === "failed")).toMatchObject({
+      stepNumber: 2,
+      error: { message: expect.stringContaining("Invalid extraction schema") },
+    });
+    expect(run.steps[2].result).toEqual([
+      { name: "NVIDIA", price: 123.45, url: "https://stocks.example/quote/NVDA" },
+      { name: "AMD", price: 98.76, url: "https://stocks.example/quote/AMD" },
+    ]);
+    expect(run.memory[0].content).toEqual(run.steps[2].result);
+  });
+});
+
+describe("/api/runs/:runId/screenshots/:stepNumber", () => {
+  it("records a screenshot before and after each step", async () => {
+    setMockScript("agent", nvidiaScript);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "英伟达股票的价格是多少？",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    const screenshots = (await readEvents(response)).filter(
+      (event) => event.type === "screenshot"
+    );
+    // 第一步从空白页开始导航，只有执行后的截图
+    expect(screenshots.map((event) => `${event.stepNumber}:${event.phase}`)).toEqual([
+      "1:after",
+      "2:before", "2:after",
+      "3:before", "3:after",
+    ]);
+    await getRun(runId)!.saving;
+
+    const getScreenshot = (stepNumber: number, phase: string) =>
+      screenshotGET(
+        new Request(`http://localhost/api/runs/${runId}/screenshots/${stepNumber}?phase=${phase}`),
+        { params: Promise.resolve({ runId, stepNumber: String(stepNumber) }) }
+      );
+
+    const before = await getScreenshot(2, "before");
+    expect(before.status).toBe(200);
+    expect(before.headers.get("Content-Type")).toBe("image/png");
+    expect((await getScreenshot(2, "after")).status).toBe(200);
+    expect((await getScreenshot(9, "after")).status).toBe(404);
+    expect((await getScreenshot(2, "during")).status).toBe(400);
+  });
+});
+
+describe("/api/runs/:runId/export", () => {
+  it("exports a finished run as JSON, CSV and Markdown", async () => {
+    setMockScript("agent", [
+      { url: "https://stocks.example/quotes", reasoning: "行情列表页" },
+      { subgoals: ["提取所有股票的价格"] },
+      {
+        text: "提取所有股票",
+        reasoning: "列表页有所有股票的价格",
+        tool: "EXTRACT",
+        instruction: "extract all quotes",
+        schema: JSON.stringify({
+          type: "array",
+          items: {
+            type: "object",
+            properties: { name: { type: "string" }, price: { type: "number" } },
+          },
+        }),
+      },
+      nvidiaScript[4],
+      nvidiaScript[5],
+    ]);
+    const sessionId = await createSession();
+    const response = await runPOST(
+      jsonRequest("/api/agent/run", {
+        action: "START",
+        goal: "列出所有股票的价格",
+        sessionId,
+      })
+    );
+    const runId = response.headers.get("X-Run-Id")!;
+    await readEvents(response);
+    await getRun(runId)!.saving;
+
+    const exportRun = (format: string) =>
+      exportGET(new Request(`http://localhost/api/runs/${runId}/export?format=${format}`), {
+        params: Promise.resolve({ runId }),
+      });
+
+    const json = await (await exportRun("json")).json();
+    expect(json).toMatchObject({
+      goal: "列出所有股票的价格",
+      status: "done",
+      steps: [
+        { stepNumber: 1, tool: "GOTO" },
+        { stepNumber: 2, tool: "EXTRACT", reasoning: "列表页有所有股票的价格" },
+        { stepNumber: 3, tool: "CLOSE" },
+      ],
+    });
+    expect(json.extractions[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+
+    const csv = await exportRun("csv");
+    expect(csv.headers.get("Content-Type")).toContain("text/csv");
+    expect((await csv.text()).split("\r\n")).toEqual([
+      "_step,_page_url,name,price",
+      "2,https://stocks.example/quotes,NVIDIA,123.45",
+      "2,https://stocks.example/quotes,AMD,98.76",
+    ]);
+
+    const markdown = await (await exportRun("md")).text();
+    expect(markdown).toContain("# 列出所有股票的价格");
+    expect(markdown).toContain("| NVIDIA | 123.45 |");
+    expect(markdown).toContain("![步骤 1 截图](data:image/png;base64,");
+
+    expect((await exportRun("pdf")).status).toBe(400);
+  });
+});
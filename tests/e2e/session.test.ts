@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { DELETE, POST } from "@/app/api/session/route";
+import { POST as cleanupPOST } from "@/app/api/cleanup/route";
+import { GET as screencastGET } from "@/app/api/session/[sessionId]/screencast/route";
+import { CLIENT_ID_COOKIE } from "@/app/api/clientId";
+import {
+  evictIdleSessions,
+  findActivePage,
+  getSessionOwner,
+  getStagehandInstance,
+  retainSession,
+} from "@/app/api/stagehandManager";
+
+function jsonRequest(method: string, body: unknown, cookie?: string) {
+  return new Request("http://localhost/api/session", {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// 测试中创建和关闭会话的客户端
+const CLIENT_COOKIE = `${CLIENT_ID_COOKIE}=test-client`;
+
+// 关闭之前的测试留下的所有浏览器
+async function evictAll() {
+  await evictIdleSessions(Number.POSITIVE_INFINITY);
+}
+
+describe("/api/session", () => {
+  it("creates a local session without Browserbase", async () => {
+    const response = await POST(jsonRequest("POST", { timezone: "Asia/Shanghai" }));
+    const data = await response.json();
+
+    expect(data.success).toBe(true);
+    expect(data.sessionId).toMatch(/^local-/);
+    expect(data.sessionUrl).toBe("local://chromium-instance");
+    expect(data.isLocalMode).toBe(true);
+  });
+
+  it("closes the session's browser on DELETE", async () => {
+    const { sessionId } = await (await POST(jsonRequest("POST", {}, CLIENT_COOKIE))).json();
+    const stagehand = await getStagehandInstance(sessionId);
+    await stagehand.page.goto("https://stocks.example/");
+
+    const response = await DELETE(jsonRequest("DELETE", { sessionId }, CLIENT_COOKIE));
+    expect((await response.json()).success).toBe(true);
+
+    // 关闭后再次获取会得到一个新的空白页面
+    const fresh = await getStagehandInstance(sessionId);
+    expect(fresh).not.toBe(stagehand);
+    expect(fresh.page.url()).toBe("about:blank");
+  });
+
+  it("refuses to close another client's session", async () => {
+    const { sessionId } = await (await POST(jsonRequest("POST", {}, CLIENT_COOKIE))).json();
+    const stagehand = await getStagehandInstance(sessionId);
+
+    const response = await DELETE(
+      jsonRequest("DELETE", { sessionId }, `${CLIENT_ID_COOKIE}=other-client`)
+    );
+    expect(response.status).toBe(403);
+    expect(await getStagehandInstance(sessionId)).toBe(stagehand);
+
+    // 没有创建者的会话谁都不能关闭
+    const ownerless = await DELETE(
+      jsonRequest("DELETE", { sessionId: "local-unknown" }, CLIENT_COOKIE)
+    );
+    expect(ownerless.status).toBe(403);
+    const malformed = await DELETE(
+      new Request("http://localhost/api/session", { method: "DELETE", body: "{" })
+    );
+    expect(malformed.status).toBe(400);
+
+    await DELETE(jsonRequest("DELETE", { sessionId }, CLIENT_COOKIE));
+  });
+
+  it("streams screencast frames until the session closes", async () => {
+    const { sessionId } = await (await POST(jsonRequest("POST", {}, CLIENT_COOKIE))).json();
+    const stagehand = await getStagehandInstance(sessionId);
+    await stagehand.page.goto("https://stocks.example/");
+
+    const watch = (cookie: string) =>
+      screencastGET(
+        new Request(`http://localhost/api/session/${sessionId}/screencast`, {
+          headers: { Cookie: cookie },
+        }),
+        { params: Promise.resolve({ sessionId }) }
+      );
+
+    // 其他客户端不能观看这个会话的浏览器
+    expect((await watch(`${CLIENT_ID_COOKIE}=other-client`)).status).toBe(403);
+
+    const response = await watch(CLIENT_COOKIE);
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    const body = response.text();
+
+    // 收到第一帧后关闭会话，流随之结束
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await DELETE(jsonRequest("DELETE", { sessionId }, CLIENT_COOKIE));
+
+    const events = (await body)
+      .split("\n\n")
+      .filter((chunk) => chunk.startsWith("data: "))
+      .map((chunk) => JSON.parse(chunk.slice("data: ".length)));
+    expect(events[0]).toMatchObject({ type: "frame", url: "https://stocks.example/" });
+    expect(events[0].data).toBeTruthy();
+    expect(events[events.length - 1]).toEqual({ type: "end" });
+  });
+
+  it("does not launch a browser to show a closed or unknown session", async () => {
+    const response = await screencastGET(
+      new Request("http://localhost/api/session/local-unknown/screencast"),
+      { params: Promise.resolve({ sessionId: "local-unknown" }) }
+    );
+    expect(response.status).toBe(404);
+    expect(findActivePage("local-unknown")).toBeUndefined();
+  });
+});
+
+describe("session lifecycle", () => {
+  afterEach(() => {
+    delete process.env.MAX_CONCURRENT_SESSIONS;
+    delete process.env.SESSION_QUEUE_TIMEOUT_MS;
+  });
+
+  it("evicts idle sessions unless a run holds them", async () => {
+    await evictAll();
+    const { sessionId: idle } = await (await POST(jsonRequest("POST", {}))).json();
+    const { sessionId: busy } = await (await POST(jsonRequest("POST", {}))).json();
+    // 从未启动浏览器的会话也会被回收
+    const { sessionId: unused } = await (await POST(jsonRequest("POST", {}))).json();
+    const idleStagehand = await getStagehandInstance(idle);
+    await getStagehandInstance(busy);
+    const release = retainSession(busy);
+
+    expect(await evictIdleSessions()).toEqual([]);
+    expect(await evictIdleSessions(Date.now() + 60 * 60 * 1000)).toEqual([idle, unused]);
+    expect(getSessionOwner(unused)).toBeUndefined();
+    expect(await getStagehandInstance(idle)).not.toBe(idleStagehand);
+
+    release();
+    expect(await evictIdleSessions(Number.POSITIVE_INFINITY)).toContain(busy);
+  });
+
+  it("re-creates a browser whose pages have all closed", async () => {
+    const { sessionId } = await (await POST(jsonRequest("POST", {}))).json();
+    const stagehand = await getStagehandInstance(sessionId);
+    await stagehand.page.close();
+
+    const fresh = await getStagehandInstance(sessionId);
+    expect(fresh).not.toBe(stagehand);
+    expect(fresh.page.isClosed()).toBe(false);
+  });
+
+  it("queues new browsers when the session limit is reached", async () => {
+    await evictAll();
+    process.env.MAX_CONCURRENT_SESSIONS = "1";
+    const { sessionId: first } = await (await POST(jsonRequest("POST", {}, CLIENT_COOKIE))).json();
+    const { sessionId: second } = await (await POST(jsonRequest("POST", {}))).json();
+    await getStagehandInstance(first);
+
+    let started = false;
+    const queued = getStagehandInstance(second).then((stagehand) => {
+      started = true;
+      return stagehand;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(started).toBe(false);
+
+    await DELETE(jsonRequest("DELETE", { sessionId: first }, CLIENT_COOKIE));
+    await queued;
+    expect(started).toBe(true);
+
+    // 名额一直没有空出来时排队超时
+    process.env.SESSION_QUEUE_TIMEOUT_MS = "20";
+    await expect(getStagehandInstance(first)).rejects.toThrow(/free browser session/);
+  });
+
+  it("cleans up only the caller's own sessions", async () => {
+    const created = await POST(jsonRequest("POST", {}));
+    const cookie = created.headers.get("set-cookie")!.split(";")[0];
+    const { sessionId: mine } = await created.json();
+    const { sessionId: other } = await (await POST(jsonRequest("POST", {}))).json();
+    await getStagehandInstance(mine);
+    const otherStagehand = await getStagehandInstance(other);
+
+    const response = await cleanupPOST(
+      new Request("http://localhost/api/cleanup", { method: "POST", headers: { Cookie: cookie } })
+    );
+    expect((await response.json()).sessionIds).toEqual([mine]);
+    expect(await getStagehandInstance(other)).toBe(otherStagehand);
+  });
+});
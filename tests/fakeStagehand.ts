@@ -0,0 +1,393 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ObserveResult, Stagehand } from "@browserbasehq/stagehand";
+
+// 1x1像素的透明PNG，作为假浏览器的截图
+const BLANK_SCREENSHOT =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+// 假浏览器提供页面的目录，https://host/a/b 对应 <目录>/host/a/b.html
+export const PAGE_FIXTURES_DIR = path.join(__dirname, "fixtures", "pages");
+
+const NOT_FOUND_HTML = "<html><head><title>Not Found</title></head><body><h1>Not Found</h1></body></html>";
+
+type FakeLink = { href: string; text: string; newTab: boolean };
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseLinks(html: string): FakeLink[] {
+  const links: FakeLink[] = [];
+  const linkPattern = /<a\s([^>]*)href="([^"]*)"([^>]*)>([\s\S]*?)<\/a>/gi;
+  let match;
+  while ((match = linkPattern.exec(html)) !== null) {
+    links.push({
+      href: match[2],
+      text: stripTags(match[4]),
+      newTab: /target="_blank"/i.test(match[1] + match[3]),
+    });
+  }
+  return links;
+}
+
+type FakeElement = {
+  id: number;
+  role: string;
+  name: string;
+  level?: number;
+  // 链接的地址和输入框的name属性
+  href?: string;
+  inputName?: string;
+};
+
+// 按文档顺序解析页面中的标题、链接、按钮和输入框
+function parseElements(html: string): FakeElement[] {
+  const elements: FakeElement[] = [];
+  const pattern =
+    /<(h[1-6])[^>]*>([\s\S]*?)<\/\1>|<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>|<button[^>]*>([\s\S]*?)<\/button>|<input\s([^>]*)>/gi;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    const id = elements.length + 1;
+    if (match[1]) {
+      elements.push({ id, role: "heading", name: stripTags(match[2]), level: Number(match[1][1]) });
+    } else if (match[3] !== undefined) {
+      elements.push({ id, role: "link", name: stripTags(match[4]), href: match[3] });
+    } else if (match[5] !== undefined) {
+      elements.push({ id, role: "button", name: stripTags(match[5]) });
+    } else {
+      const attribute = (name: string) =>
+        match![6].match(new RegExp(`${name}="([^"]*)"`, "i"))?.[1];
+      elements.push({
+        id,
+        role: "textbox",
+        name: attribute("aria-label") ?? attribute("placeholder") ?? "",
+        inputName: attribute("name"),
+      });
+    }
+  }
+  return elements;
+}
+
+// 与CDP Accessibility.getFullAXTree返回格式一致的无障碍树
+function buildAccessibilityTree(html: string) {
+  return parseElements(html).map((element) => ({
+    ignored: false,
+    role: { value: element.role },
+    name: { value: element.name },
+    properties: element.level ? [{ name: "level", value: { value: element.level } }] : [],
+    backendDOMNodeId: element.id,
+  }));
+}
+
+// 将URL映射到fixture文件：https://host/ -> host/index.html，https://host/a/b -> host/a/b.html
+function getFixturePath(fixturesDir: string, url: string): string {
+  const { hostname, pathname } = new URL(url);
+  const page = pathname === "/" ? "index" : pathname.replace(/^\/|\/$/g, "");
+  return path.join(fixturesDir, hostname, `${page}.html`);
+}
+
+// 假浏览器上下文，新标签页会通知popup监听器，与Stagehand的行为一致
+class FakeContext {
+  private popupListeners: ((page: FakePage) => void)[] = [];
+
+  constructor(private fixturesDir: string) {}
+
+  onPopup(listener: (page: FakePage) => void) {
+    this.popupListeners.push(listener);
+  }
+
+  // 假浏览器没有真实的连接，存活检查只看标签页
+  browser() {
+    return null;
+  }
+
+  async newPage() {
+    const page = new FakePage(this.fixturesDir, this);
+    for (const listener of this.popupListeners) {
+      listener(page);
+    }
+    return page;
+  }
+}
+
+// 从本地fixture目录提供页面的假页面，只实现agent用到的Stagehand Page方法
+class FakePage {
+  private history: string[] = [];
+  private currentUrl = "about:blank";
+  private html = "";
+  private closed = false;
+  // 通过CDP转发到页面的用户操作，测试中用于检查
+  inputEvents: { method: string; params: unknown }[] = [];
+  // 通过locator执行的直接操作，测试中用于检查
+  actions: { action: string; element: string; value?: string }[] = [];
+  // 通过CDP加上data-agent-target标记的元素，与真实DOM一样，旧的标记在页面重新加载前一直保留
+  private taggedElements: { token: string; elementId: number }[] = [];
+
+  constructor(
+    private fixturesDir: string,
+    private fakeContext: FakeContext
+  ) {}
+
+  url() {
+    return this.currentUrl;
+  }
+
+  async title() {
+    return this.html.match(/<title>([\s\S]*?)<\/title>/i)?.[1]?.trim() ?? "";
+  }
+
+  async goto(url: string) {
+    if (this.currentUrl !== "about:blank") {
+      this.history.push(this.currentUrl);
+    }
+    await this.load(url);
+    return null;
+  }
+
+  on(event: string, listener: (page: FakePage) => void) {
+    if (event === "popup") {
+      this.fakeContext.onPopup(listener);
+    }
+    return this;
+  }
+
+  isClosed() {
+    return this.closed;
+  }
+
+  async close() {
+    this.closed = true;
+  }
+
+  async bringToFront() {}
+
+  async goBack() {
+    const previousUrl = this.history.pop();
+    if (previousUrl) {
+      await this.load(previousUrl);
+    }
+    return null;
+  }
+
+  // 点击指令中提到文字的第一个链接，target="_blank"的链接在新标签页中打开
+  async act(action: string | { action: string }) {
+    const instruction = typeof action === "string" ? action : action.action;
+    const link = parseLinks(this.html).find(
+      (candidate) =>
+        candidate.text &&
+        instruction.toLowerCase().includes(candidate.text.toLowerCase())
+    );
+
+    if (!link) {
+      return { success: false, message: "No matching element", action: instruction };
+    }
+
+    await this.followLink(link);
+    return { success: true, message: `Clicked ${link.text}`, action: instruction };
+  }
+
+  private async followLink(link: FakeLink) {
+    const url = new URL(link.href, this.currentUrl).toString();
+    if (link.newTab) {
+      const page = await this.fakeContext.newPage();
+      await page.goto(url);
+    } else {
+      await this.goto(url);
+    }
+  }
+
+  // 支持 [data-agent-target="..."]、a[href="..."]、input[name="..."] 和 text=... 选择器
+  private findElement(selector: string): FakeElement | undefined {
+    const elements = parseElements(this.html);
+    const tagged = selector.match(/^\[data-agent-target="([^"]*)"\]$/);
+    if (tagged) {
+      // 按文档顺序返回第一个带有该标记的元素
+      return elements.find((element) =>
+        this.taggedElements.some((tag) => tag.token === tagged[1] && tag.elementId === element.id)
+      );
+    }
+    const href = selector.match(/^a\[href="([^"]*)"\]$/);
+    if (href) {
+      return elements.find((element) => element.href === href[1]);
+    }
+    const inputName = selector.match(/^input\[name="([^"]*)"\]$/);
+    if (inputName) {
+      return elements.find((element) => element.inputName === inputName[1]);
+    }
+    const text = selector.match(/^text=(.*)$/);
+    return text ? elements.find((element) => element.name === text[1]) : undefined;
+  }
+
+  locator(selector: string) {
+    const record = async (action: string, value?: string) => {
+      const element = this.findElement(selector);
+      if (!element) {
+        throw new Error(`Timeout 10000ms exceeded waiting for locator('${selector}')`);
+      }
+      this.actions.push({ action, element: `${element.role} "${element.name}"`, value });
+      return element;
+    };
+    const locator = {
+      first: () => locator,
+      count: async () => (this.findElement(selector) ? 1 : 0),
+      click: async () => {
+        const element = await record("click");
+        if (element.href !== undefined) {
+          const link = parseLinks(this.html).find((candidate) => candidate.href === element.href);
+          await this.followLink(link!);
+        }
+      },
+      fill: async (value: string) => {
+        await record("fill", value);
+      },
+      press: async (key: string) => {
+        await record("press", key);
+      },
+      selectOption: async (value: string) => {
+        await record("selectOption", value);
+      },
+      hover: async () => {
+        await record("hover");
+      },
+      scrollIntoViewIfNeeded: async () => {
+        await record("scrollIntoView");
+      },
+    };
+    return locator;
+  }
+
+  get keyboard() {
+    return {
+      press: async (key: string) => {
+        this.actions.push({ action: "press", element: "page", value: key });
+      },
+    };
+  }
+
+  get mouse() {
+    return {
+      wheel: async (deltaX: number, deltaY: number) => {
+        this.actions.push({ action: "wheel", element: "page", value: String(deltaY) });
+      },
+    };
+  }
+
+  // 假页面不会变化，条件当前不满足时立即按超时处理
+  async waitForSelector(selector: string) {
+    const text = selector.match(/^text=(.*)$/)?.[1];
+    const found = text ? stripTags(this.html).includes(text) : this.findElement(selector);
+    if (!found) {
+      throw new Error(`Timeout exceeded while waiting for selector "${selector}"`);
+    }
+  }
+
+  async waitForLoadState() {}
+
+  async waitForURL(predicate: (url: URL) => boolean) {
+    if (!predicate(new URL(this.currentUrl))) {
+      throw new Error("Timeout exceeded while waiting for URL");
+    }
+  }
+
+  // 返回页面的全部文本；带schema时返回页面中预先写好的结构化数据
+  async extract(options: string | { instruction: string; schema?: unknown }) {
+    if (typeof options !== "string" && options.schema) {
+      const data = this.html.match(
+        /<script type="application\/json" data-extract>([\s\S]*?)<\/script>/i
+      )?.[1];
+      return data ? JSON.parse(data) : {};
+    }
+    return { extraction: stripTags(this.html) };
+  }
+
+  async observe(): Promise<ObserveResult[]> {
+    return parseLinks(this.html).map((link) => ({
+      selector: `a[href="${link.href}"]`,
+      description: link.text,
+    }));
+  }
+
+  context() {
+    return {
+      newCDPSession: async () => {
+        const listeners: ((event: unknown) => void)[] = [];
+        return {
+          on: (event: string, listener: (event: unknown) => void) => {
+            if (event === "Page.screencastFrame") {
+              listeners.push(listener);
+            }
+          },
+          send: async (method: string, params?: unknown) => {
+            if (method.startsWith("Input.")) {
+              this.inputEvents.push({ method, params });
+            }
+            if (method === "Page.captureScreenshot") {
+              return { data: BLANK_SCREENSHOT };
+            }
+            if (method === "Accessibility.getFullAXTree") {
+              return { nodes: buildAccessibilityTree(this.html) };
+            }
+            // 按元素ID定位节点并加上data-agent-target标记
+            if (method === "DOM.resolveNode") {
+              const { backendNodeId } = params as { backendNodeId: number };
+              return { object: { objectId: String(backendNodeId) } };
+            }
+            if (method === "Runtime.callFunctionOn") {
+              const { objectId, arguments: args } = params as {
+                objectId: string;
+                arguments: { value: string }[];
+              };
+              this.taggedElements.push({ token: args[0].value, elementId: Number(objectId) });
+              return {};
+            }
+            // 开始录屏后推送一帧当前页面
+            if (method === "Page.startScreencast") {
+              setTimeout(() => {
+                for (const listener of listeners) {
+                  listener({
+                    data: BLANK_SCREENSHOT,
+                    sessionId: 1,
+                    metadata: { deviceWidth: 1, deviceHeight: 1 },
+                  });
+                }
+              });
+            }
+            return {};
+          },
+          detach: async () => {
+            listeners.length = 0;
+          },
+        };
+      },
+    };
+  }
+
+  private async load(url: string) {
+    this.currentUrl = url;
+    this.taggedElements = [];
+    try {
+      this.html = await fs.readFile(getFixturePath(this.fixturesDir, url), "utf8");
+    } catch {
+      this.html = NOT_FOUND_HTML;
+    }
+  }
+}
+
+// 创建不依赖真实浏览器和LLM的Stagehand替身，用于离线端到端测试
+export function createFakeStagehand(fixturesDir = PAGE_FIXTURES_DIR): Stagehand {
+  const context = new FakeContext(fixturesDir);
+  const page = new FakePage(fixturesDir, context);
+  return {
+    page,
+    context,
+    init: async () => ({ debugUrl: "", sessionUrl: "", sessionId: "" }),
+    close: async () => {},
+  } as unknown as Stagehand;
+}
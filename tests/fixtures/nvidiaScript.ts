@@ -0,0 +1,40 @@
+// 查询英伟达股价的录制输出，按调用顺序排列
+export const nvidiaScript = [
+  {
+    url: "https://stocks.example/",
+    reasoning: "行情网站的首页列出了所有股票",
+  },
+  {
+    subgoals: ["打开英伟达的行情页", "提取英伟达的最新股价"],
+  },
+  {
+    text: "打开英伟达的行情页",
+    reasoning: "首页有NVIDIA的链接",
+    tool: "ACT",
+    instruction: "click the NVIDIA link",
+  },
+  {
+    text: "提取英伟达的股价",
+    reasoning: "行情页显示了最新价格",
+    tool: "EXTRACT",
+    instruction: "extract the last price of NVDA",
+    planUpdate: { completed: [1] },
+  },
+  {
+    text: "已找到股价，结束任务",
+    reasoning: "目标已经完成",
+    tool: "CLOSE",
+    instruction: "",
+    planUpdate: { completed: [2] },
+  },
+  {
+    answer: "英伟达的最新股价是123.45美元。",
+    citations: [
+      {
+        claim: "英伟达的最新股价是123.45美元",
+        url: "https://stocks.example/quote/NVDA",
+        stepNumber: 3,
+      },
+    ],
+  },
+];
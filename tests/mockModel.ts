@@ -0,0 +1,56 @@
+import { LanguageModelV1, LanguageModelV1CallOptions } from "ai";
+
+// 存储脚本名到待回放输出队列的映射，同名的模型共享一个队列
+const mockScripts: Map<string, unknown[]> = new Map();
+
+// 每次调用的输入，供测试检查提示词
+const mockCalls: Map<string, LanguageModelV1CallOptions[]> = new Map();
+
+// 设置脚本，依次回放给generateObject的输出
+export function setMockScript(name: string, outputs: unknown[]): void {
+  mockScripts.set(name, [...outputs]);
+  mockCalls.set(name, []);
+}
+
+export function getMockCalls(name: string): LanguageModelV1CallOptions[] {
+  return mockCalls.get(name) ?? [];
+}
+
+export function getRemainingMockOutputs(name: string): unknown[] {
+  return mockScripts.get(name) ?? [];
+}
+
+// 按脚本回放预先记录的generateObject输出的确定性模型，用于离线测试
+export class ScriptedLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1";
+  readonly provider = "mock";
+  readonly defaultObjectGenerationMode = "json";
+  readonly modelId: string;
+
+  constructor(modelId: string) {
+    this.modelId = modelId;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const calls = mockCalls.get(this.modelId) ?? [];
+    calls.push(options);
+    mockCalls.set(this.modelId, calls);
+
+    const outputs = mockScripts.get(this.modelId);
+    if (!outputs || outputs.length === 0) {
+      throw new Error(`Mock model "${this.modelId}" has no recorded output left`);
+    }
+    const output = outputs.shift();
+
+    return {
+      text: JSON.stringify(output),
+      finishReason: "stop" as const,
+      usage: { promptTokens: 0, completionTokens: 0 },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(): Promise<never> {
+    throw new Error("Mock model does not support streaming");
+  }
+}
@@ -0,0 +1,30 @@
+import os from "os";
+import path from "path";
+import { vi } from "vitest";
+
+// 离线运行：假浏览器从fixture目录提供页面，所有模型都使用脚本模型
+vi.mock("@/app/api/stagehandFactory", async () => {
+  const { createFakeStagehand } = await import("./fakeStagehand");
+  return { createStagehand: async () => createFakeStagehand() };
+});
+
+// 脚本模型用 "mock:<脚本名>" 指定，见 tests/mockModel.ts
+vi.mock("@/utils/modelProviders", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/utils/modelProviders")>();
+  const { ScriptedLanguageModel } = await import("./mockModel");
+  return {
+    ...actual,
+    providerFactories: {
+      ...actual.providerFactories,
+      mock: () => (modelId: string) => new ScriptedLanguageModel(modelId),
+    },
+  };
+});
+
+process.env.LLM_MODEL = "mock:agent";
+process.env.RUNS_DIR = path.join(os.tmpdir(), `manus-lite-runs-${process.pid}`);
+process.env.USE_LOCAL_MODE = "true";
+delete process.env.BROWSERBASE_API_KEY;
+delete process.env.PLANNER_MODEL;
+delete process.env.STARTER_MODEL;
+delete process.env.STAGEHAND_MODEL;
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { Step } from "@/app/api/agentCore";
+import { evaluateStep, resolveApprovalPolicy } from "@/app/api/approvalPolicy";
+
+function step(tool: Step["tool"], instruction: string, value?: string): Step {
+  return { text: "", reasoning: "", tool, instruction, value };
+}
+
+describe("evaluateStep", () => {
+  const policy = resolveApprovalPolicy([]);
+
+  it.each(["Enter", "Return", "NumpadEnter", "Control+Enter", " enter "])(
+    "treats pressing %j as a form submit",
+    (key) => {
+      expect(evaluateStep(step("PRESS_KEY", "#search", key), policy)).toEqual(["form_submit"]);
+    }
+  );
+
+  it("treats an ACT step that presses Enter as a form submit", () => {
+    expect(evaluateStep(step("ACT", "press Enter in the search box"), policy)).toEqual([
+      "form_submit",
+    ]);
+  });
+
+  it("does not flag other keys or a disabled rule", () => {
+    expect(evaluateStep(step("PRESS_KEY", "", "Tab"), policy)).toEqual([]);
+    expect(
+      evaluateStep(step("PRESS_KEY", "", "Enter"), { ...policy, rules: ["purchase"] })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import { Page } from "@browserbasehq/stagehand";
+import { runDirectAction } from "@/app/api/directActions";
+import { PageDigest, setPageDigest } from "@/app/api/pageDigest";
+import { createFakeStagehand } from "../fakeStagehand";
+
+const CHART_URL = "https://stocks.example/chart";
+
+// 页面没有跳转，但重新渲染后同一个序号指向了另一个元素
+function digestWithButton(name: string, backendNodeId: number): PageDigest {
+  return {
+    url: CHART_URL,
+    title: "NVDA Chart",
+    headings: [],
+    elements: [{ index: 1, role: "button", name, backendNodeId }],
+    omittedElements: 0,
+  };
+}
+
+async function openChart() {
+  const stagehand = createFakeStagehand();
+  const page = stagehand.page as unknown as Page & {
+    actions: { action: string; element: string }[];
+  };
+  await page.goto(CHART_URL);
+  return page;
+}
+
+describe("runDirectAction", () => {
+  it("does not match elements tagged by an earlier action on the same page", async () => {
+    const page = await openChart();
+
+    setPageDigest("direct-actions", digestWithButton("1D", 2));
+    await runDirectAction({ page, sessionID: "direct-actions", tool: "CLICK", instruction: "[1]" });
+    setPageDigest("direct-actions", digestWithButton("1W", 3));
+    await runDirectAction({ page, sessionID: "direct-actions", tool: "CLICK", instruction: "[1]" });
+
+    expect(page.actions).toEqual([
+      { action: "click", element: 'button "1D"' },
+      { action: "click", element: 'button "1W"' },
+    ]);
+  });
+
+  it("reports an unmet WAIT_FOR_SELECTOR like WAIT, with the timeout capped", async () => {
+    const page = await openChart();
+    const waitForSelector = vi.spyOn(page, "waitForSelector");
+
+    const missing = await runDirectAction({
+      page,
+      sessionID: "direct-actions",
+      tool: "WAIT_FOR_SELECTOR",
+      instruction: "#price",
+      value: "600000",
+    });
+    expect(missing).toMatchObject({ condition: "selector:#price", met: false });
+    expect(waitForSelector).toHaveBeenCalledWith("#price", { state: "visible", timeout: 30000 });
+
+    const found = await runDirectAction({
+      page,
+      sessionID: "direct-actions",
+      tool: "WAIT_FOR_SELECTOR",
+      instruction: "text=1W",
+    });
+    expect(found).toMatchObject({ condition: "selector:text=1W", met: true });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { parseExtractSchema, validateExtraction } from "@/app/api/extractSchema";
+
+describe("parseExtractSchema", () => {
+  it("keeps numeric enum values as numbers", () => {
+    const schema = parseExtractSchema(JSON.stringify({ type: "number", enum: [1, 2, 3] }));
+
+    expect(validateExtraction(schema, { value: 2 })).toBe(2);
+    expect(() => validateExtraction(schema, { value: "2" })).toThrow(
+      "Extraction does not match the schema"
+    );
+  });
+
+  it("treats every field as optional when required is omitted", () => {
+    const schema = parseExtractSchema(
+      JSON.stringify({
+        type: "object",
+        properties: { name: { type: "string" }, price: { type: "number" } },
+      })
+    );
+
+    expect(validateExtraction(schema, { name: "NVIDIA" })).toEqual({ name: "NVIDIA" });
+  });
+
+  it("requires only the fields listed in required", () => {
+    const schema = parseExtractSchema(
+      JSON.stringify({
+        type: "object",
+        properties: { name: { type: "string" }, price: { type: "number" } },
+        required: ["price"],
+      })
+    );
+
+    expect(() => validateExtraction(schema, { name: "NVIDIA" })).toThrow("price: Required");
+  });
+});
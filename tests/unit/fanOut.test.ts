@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "@/app/api/fanOut";
+
+describe("mapWithConcurrency", () => {
+  it("keeps running the other items when one of them fails", async () => {
+    const started: number[] = [];
+    const results = await mapWithConcurrency([1, 2, 3], 2, async (item) => {
+      started.push(item);
+      if (item === 1) {
+        throw new Error("浏览器会话已满");
+      }
+      return item * 10;
+    });
+
+    expect(started).toEqual([1, 2, 3]);
+    expect(results).toEqual([
+      { status: "rejected", reason: new Error("浏览器会话已满") },
+      { status: "fulfilled", value: 20 },
+      { status: "fulfilled", value: 30 },
+    ]);
+  });
+});
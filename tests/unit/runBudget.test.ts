@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { detectLoop } from "@/app/api/runBudget";
+
+const step = (tool: string, instruction: string, url?: string) => ({ tool, instruction, url });
+
+describe("detectLoop", () => {
+  it("reports the same step repeated three times in a row", () => {
+    const click = step("ACT", "click Next", "https://stocks.example/news");
+
+    expect(detectLoop([click, click])).toBeNull();
+    expect(detectLoop([click, click, click])).toContain('ACT "click Next"');
+  });
+
+  it("reports pages visited back and forth", () => {
+    const a = "https://stocks.example/";
+    const b = "https://stocks.example/news";
+
+    const steps = [
+      step("GOTO", a, a),
+      step("ACT", "open news", b),
+      step("NAVBACK", "", a),
+      step("ACT", "open news again", b),
+    ];
+    expect(detectLoop(steps)).toBe(`在这些页面之间来回跳转: ${a} → ${b}`);
+  });
+
+  it("ignores steps that stay on the same page", () => {
+    const a = "https://stocks.example/";
+    const b = "https://stocks.example/news";
+
+    const steps = [
+      step("GOTO", a, a),
+      step("EXTRACT", "extract quotes", a),
+      step("ACT", "open news", b),
+      step("EXTRACT", "extract headlines", b),
+    ];
+    expect(detectLoop(steps)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { exportRunCsv, exportRunJson, exportRunMarkdown } from "@/app/api/runExport";
+import { StoredRun } from "@/app/api/runStore";
+
+function storedRun(overrides: Partial<StoredRun> = {}): StoredRun {
+  return {
+    runId: "run-export",
+    sessionId: "local-export",
+    goal: "英伟达股票的价格是多少？",
+    status: "done",
+    steps: [],
+    memory: [],
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("run export", () => {
+  const turns = [
+    {
+      goal: "英伟达股票的价格是多少？",
+      startStepNumber: 1,
+      answer: {
+        answer: "123.45美元",
+        citations: [{ claim: "123.45美元", url: "https://stocks.example/quote/NVDA", stepNumber: 2 }],
+      },
+    },
+    { goal: "再看看市场新闻", startStepNumber: 4, answer: { answer: "芯片股今天上涨" } },
+  ];
+
+  it("includes the goal and answer of every turn", async () => {
+    const run = storedRun({ turns, answer: turns[1].answer });
+
+    expect(JSON.parse(exportRunJson(run)).turns).toEqual(turns);
+
+    const markdown = await exportRunMarkdown(run);
+    expect(markdown).toContain("### 第 1 轮: 英伟达股票的价格是多少？");
+    expect(markdown).toContain("123.45美元\n\n#### 来源");
+    expect(markdown).toContain("### 第 2 轮: 再看看市场新闻\n\n- 起始步骤: 4\n\n芯片股今天上涨");
+  });
+
+  it("shows a single-turn answer without a conversation section", async () => {
+    const markdown = await exportRunMarkdown(
+      storedRun({ turns: [turns[0]], answer: turns[0].answer })
+    );
+    expect(markdown).not.toContain("## 对话");
+    expect(markdown).toContain("## 答案\n\n123.45美元\n\n### 来源");
+  });
+
+  it("quotes CSV cells that contain commas, quotes or line breaks", () => {
+    const csv = exportRunCsv(
+      storedRun({
+        memory: [
+          {
+            stepNumber: 2,
+            tool: "EXTRACT",
+            instruction: "extract the headlines",
+            url: "https://stocks.example/news",
+            content: [{ title: 'Chips, "AI" rally', summary: "第一行\n第二行", tags: ["a", "b"] }],
+            timestamp: 0,
+          },
+        ],
+      })
+    );
+    expect(csv.split("\r\n")).toEqual([
+      "_step,_page_url,title,summary,tags",
+      '2,https://stocks.example/news,"Chips, ""AI"" rally","第一行\n第二行","[""a"",""b""]"',
+    ]);
+  });
+
+  it("keeps extracted step and url fields apart from the source columns", () => {
+    const csv = exportRunCsv(
+      storedRun({
+        memory: [
+          {
+            stepNumber: 3,
+            tool: "EXTRACT",
+            instruction: "extract the links",
+            url: "https://stocks.example/news",
+            content: [{ step: "第一步", url: "https://stocks.example/news/1" }],
+            timestamp: 0,
+          },
+        ],
+      })
+    );
+    expect(csv.split("\r\n")).toEqual([
+      "_step,_page_url,step,url",
+      "3,https://stocks.example/news,第一步,https://stocks.example/news/1",
+    ]);
+  });
+});
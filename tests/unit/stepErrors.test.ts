@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { classifyError, StepError } from "@/app/api/stepErrors";
+
+describe("classifyError", () => {
+  it.each([
+    ["Target page, context or browser has been closed", "session_lost"],
+    ["Timeout 30000ms exceeded.", "timeout"],
+    ["page.goto: net::ERR_NAME_NOT_RESOLVED", "navigation"],
+    ["locator.click: resolved to 0 elements", "element_not_found"],
+    ["Something unexpected", "unknown"],
+  ])("classifies %j as %s", (message, kind) => {
+    expect(classifyError(new Error(message)).kind).toBe(kind);
+  });
+
+  it("treats a TimeoutError as a transient timeout", () => {
+    const error = new Error("Waiting failed");
+    error.name = "TimeoutError";
+
+    const stepError = classifyError(error);
+    expect(stepError.kind).toBe("timeout");
+    expect(stepError.transient).toBe(true);
+    expect(stepError.fatal).toBe(false);
+  });
+
+  it("keeps an existing StepError", () => {
+    const error = new StepError("element_not_found", "Element [3] is gone", 2);
+    expect(classifyError(error)).toBe(error);
+  });
+});
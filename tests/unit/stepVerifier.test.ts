@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { isValidStepVerdict } from "@/app/api/stepVerifier";
+
+describe("isValidStepVerdict", () => {
+  it("accepts a known outcome", () => {
+    expect(
+      isValidStepVerdict({ stepNumber: 2, outcome: "success", explanation: "页面已跳转" })
+    ).toBe(true);
+  });
+
+  it("rejects outcomes inherited from Object.prototype", () => {
+    expect(
+      isValidStepVerdict({ stepNumber: 2, outcome: "toString", explanation: "页面已跳转" })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { applyPlanUpdate, TaskPlan } from "@/app/api/taskPlan";
+
+const plan: TaskPlan = {
+  subgoals: [
+    { id: 1, description: "打开行情页", status: "done" },
+    { id: 2, description: "提取股价", status: "pending" },
+    { id: 3, description: "查看新闻", status: "pending" },
+  ],
+  revision: 1,
+  updatedAt: 0,
+};
+
+describe("applyPlanUpdate", () => {
+  it("returns null when nothing changes", () => {
+    expect(applyPlanUpdate(plan)).toBeNull();
+    expect(applyPlanUpdate(plan, { completed: [1] })).toBeNull();
+  });
+
+  it("marks completed and skipped subgoals without a new revision", () => {
+    const updated = applyPlanUpdate(plan, { completed: [2], skipped: [3] });
+
+    expect(updated?.subgoals.map((subgoal) => subgoal.status)).toEqual([
+      "done",
+      "done",
+      "skipped",
+    ]);
+    expect(updated?.revision).toBe(1);
+  });
+
+  it("replaces the remaining subgoals and renumbers them", () => {
+    const updated = applyPlanUpdate(plan, {
+      completed: [2],
+      revisedSubgoals: ["查看财报", "  ", "汇总结果"],
+    });
+
+    expect(updated?.subgoals).toEqual([
+      { id: 1, description: "打开行情页", status: "done" },
+      { id: 2, description: "提取股价", status: "done" },
+      { id: 3, description: "查看财报", status: "pending" },
+      { id: 4, description: "汇总结果", status: "pending" },
+    ]);
+    expect(updated?.revision).toBe(2);
+  });
+});
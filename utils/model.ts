@@ -1,15 +1,96 @@
-import { createAzure } from "@ai-sdk/azure";
-import { createOpenAI } from "@ai-sdk/openai";
-export const azureProvider = createAzure();
+import { LanguageModel } from "ai";
+import { ProviderName, providerFactories } from "./modelProviders";
 
-export const aliProvider = createOpenAI({
-    apiKey: process.env.ALI_API_KEY,
-    baseURL: process.env.ALI_BASE_URL
-  });
-  
-  export const aliModel = (apiIdentifier: string) => {
-    return aliProvider(apiIdentifier);
-  };
+// 需要模型的环节：规划下一步、选择起始URL、Stagehand自身的act/extract/observe
+export type ModelRole = "planner" | "starter" | "stagehand";
 
+export type ModelOverrides = Partial<Record<ModelRole, string>>;
 
-export const LLMClient = azureProvider("gpt-4o");
\ No newline at end of file
+const providers: Map<ProviderName, (modelId: string) => LanguageModel> = new Map();
+
+const roleEnvVars: Record<ModelRole, string> = {
+  planner: "PLANNER_MODEL",
+  starter: "STARTER_MODEL",
+  stagehand: "STAGEHAND_MODEL",
+};
+
+// 未配置时保持原有行为：规划使用Azure，Stagehand使用OpenAI
+const roleDefaults: Record<ModelRole, string> = {
+  planner: "azure:gpt-4o",
+  starter: "azure:gpt-4o",
+  stagehand: "openai:gpt-4o",
+};
+
+// 存储会话ID到请求指定的模型的映射
+const sessionModelOverrides: Map<string, ModelOverrides> = new Map();
+
+function isProviderName(name: string): name is ProviderName {
+  return name in providerFactories;
+}
+
+// 解析 "provider:model" 形式的模型说明
+export function parseModelSpec(spec: string): { provider: ProviderName; modelId: string } {
+  const separator = spec.indexOf(":");
+  const provider = spec.slice(0, separator);
+  const modelId = spec.slice(separator + 1);
+
+  if (separator <= 0 || !modelId || !isProviderName(provider)) {
+    throw new Error(
+      `Invalid model "${spec}", expected "<${Object.keys(providerFactories).join("|")}>:<model>"`
+    );
+  }
+
+  return { provider, modelId };
+}
+
+export function isValidModelSpec(spec: unknown): spec is string {
+  if (typeof spec !== "string") return false;
+  try {
+    parseModelSpec(spec);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 校验请求中传入的各环节模型配置
+export function isValidModelOverrides(value: unknown): value is ModelOverrides {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  return Object.entries(value).every(
+    ([role, spec]) => role in roleEnvVars && (spec === undefined || isValidModelSpec(spec))
+  );
+}
+
+export function resolveModelSpec(role: ModelRole, sessionID?: string): string {
+  return (
+    (sessionID && sessionModelOverrides.get(sessionID)?.[role]) ||
+    process.env[roleEnvVars[role]] ||
+    process.env.LLM_MODEL ||
+    roleDefaults[role]
+  );
+}
+
+export function createModel(spec: string): LanguageModel {
+  const { provider, modelId } = parseModelSpec(spec);
+
+  let createProviderModel = providers.get(provider);
+  if (!createProviderModel) {
+    createProviderModel = providerFactories[provider]();
+    providers.set(provider, createProviderModel);
+  }
+
+  return createProviderModel(modelId);
+}
+
+// 获取某个环节使用的模型，优先使用会话的请求指定，其次是环境变量
+export function getModel(role: ModelRole, sessionID?: string): LanguageModel {
+  return createModel(resolveModelSpec(role, sessionID));
+}
+
+export function setSessionModels(sessionID: string, overrides: ModelOverrides): void {
+  sessionModelOverrides.set(sessionID, overrides);
+}
+
+export function clearSessionModels(sessionID: string): void {
+  sessionModelOverrides.delete(sessionID);
+}
@@ -0,0 +1,34 @@
+import { createAzure } from "@ai-sdk/azure";
+import { createOpenAI } from "@ai-sdk/openai";
+import { LanguageModel } from "ai";
+
+// 支持的模型提供方。模型用 "provider:model" 的形式指定，例如 "azure:gpt-4o"、
+// "ali:qwen-max"、"compatible:llama3.1"
+export type ProviderName = "openai" | "azure" | "ali" | "compatible";
+
+export const providerFactories: Record<ProviderName, () => (modelId: string) => LanguageModel> = {
+  openai: () =>
+    createOpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      baseURL: process.env.OPENAI_BASE_URL,
+      compatibility: "strict",
+    }),
+  // 使用AZURE_RESOURCE_NAME和AZURE_API_KEY
+  azure: () => createAzure(),
+  // 阿里云百炼(DashScope)的OpenAI兼容接口
+  ali: () =>
+    createOpenAI({
+      apiKey: process.env.ALI_API_KEY,
+      baseURL:
+        process.env.ALI_BASE_URL ||
+        "https://dashscope.aliyuncs.com/compatible-mode/v1",
+      compatibility: "compatible",
+    }),
+  // 任意OpenAI兼容的服务，例如本地的Ollama或vLLM
+  compatible: () =>
+    createOpenAI({
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || "http://localhost:11434/v1",
+      compatibility: "compatible",
+    }),
+};
@@ -0,0 +1,140 @@
+import {
+  AvailableModel,
+  CreateChatCompletionOptions,
+  LLMClient,
+} from "@browserbasehq/stagehand";
+import {
+  CoreMessage,
+  generateObject,
+  generateText,
+  ImagePart,
+  jsonSchema,
+  LanguageModel,
+  TextPart,
+} from "ai";
+
+// 让Stagehand通过AI SDK调用任意已注册的模型
+export class AISdkClient extends LLMClient {
+  public type = "aisdk" as const;
+  private model: LanguageModel;
+  private onUsage?: (totalTokens: number) => void;
+
+  constructor({
+    model,
+    onUsage,
+  }: {
+    model: LanguageModel;
+    onUsage?: (totalTokens: number) => void;
+  }) {
+    super(model.modelId as AvailableModel);
+    this.model = model;
+    this.onUsage = onUsage;
+  }
+
+  async createChatCompletion<T>({
+    options,
+  }: CreateChatCompletionOptions): Promise<T> {
+    const messages: CoreMessage[] = options.messages.map((message) => {
+      if (typeof message.content === "string") {
+        return { role: message.role, content: message.content } as CoreMessage;
+      }
+
+      if (message.role !== "user") {
+        return {
+          role: message.role,
+          content: message.content
+            .map((part) => ("text" in part ? part.text ?? "" : ""))
+            .join("\n"),
+        };
+      }
+
+      return {
+        role: "user",
+        content: message.content.map((part): TextPart | ImagePart =>
+          "image_url" in part
+            ? { type: "image", image: part.image_url.url }
+            : { type: "text", text: part.text }
+        ),
+      };
+    });
+
+    // Stagehand单独传入的截图附加为一条用户消息
+    if (options.image) {
+      messages.push({
+        role: "user",
+        content: [
+          { type: "image", image: options.image.buffer },
+          ...(options.image.description
+            ? [{ type: "text" as const, text: options.image.description }]
+            : []),
+        ],
+      });
+    }
+
+    const settings = {
+      model: this.model,
+      messages,
+      temperature: options.temperature,
+      topP: options.top_p,
+      frequencyPenalty: options.frequency_penalty,
+      presencePenalty: options.presence_penalty,
+      maxTokens: options.maxTokens,
+    };
+
+    // 带response_model的调用直接返回解析后的对象，与Stagehand内置客户端一致
+    if (options.response_model) {
+      const response = await generateObject({
+        ...settings,
+        schema: options.response_model.schema,
+      });
+      this.onUsage?.(response.usage.totalTokens);
+      return response.object as T;
+    }
+
+    const response = await generateText({
+      ...settings,
+      tools: Object.fromEntries(
+        (options.tools ?? []).map((tool) => [
+          tool.name,
+          {
+            description: tool.description,
+            parameters: jsonSchema(tool.parameters),
+          },
+        ])
+      ),
+      toolChoice: options.tool_choice,
+    });
+    this.onUsage?.(response.usage.totalTokens);
+
+    // 转换为Stagehand期望的OpenAI chat completion格式
+    return {
+      id: response.response.id,
+      object: "chat.completion",
+      created: Math.floor(response.response.timestamp.getTime() / 1000),
+      model: response.response.modelId,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: response.text || null,
+            tool_calls: response.toolCalls.map((toolCall) => ({
+              id: toolCall.toolCallId,
+              type: "function",
+              function: {
+                name: toolCall.toolName,
+                arguments: JSON.stringify(toolCall.args),
+              },
+            })),
+          },
+          finish_reason: response.finishReason,
+        },
+      ],
+      usage: {
+        prompt_tokens: response.usage.promptTokens,
+        completion_tokens: response.usage.completionTokens,
+        total_tokens: response.usage.totalTokens,
+      },
+    } as T;
+  }
+}